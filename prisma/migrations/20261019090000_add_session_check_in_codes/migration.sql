@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "attendance_session_codes" (
+    "id" TEXT NOT NULL,
+    "attendanceSessionId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_session_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_session_codes_expiresAt_idx" ON "attendance_session_codes"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_session_codes_attendanceSessionId_code_key" ON "attendance_session_codes"("attendanceSessionId", "code");
+
+-- AddForeignKey
+ALTER TABLE "attendance_session_codes" ADD CONSTRAINT "attendance_session_codes_attendanceSessionId_fkey" FOREIGN KEY ("attendanceSessionId") REFERENCES "attendance_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+/*
+  Warnings:
+
+  - The unique constraint on (`userId`, `courseId`, `date`) on the `attendances` table is replaced by (`userId`, `courseId`, `date`, `periodKey`).
+
+*/
+-- DropIndex
+DROP INDEX "attendances_userId_courseId_date_key";
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "classScheduleId" TEXT,
+ADD COLUMN     "periodKey" TEXT NOT NULL DEFAULT 'day';
+
+-- Backfill: records taken in an attendance session belong to that session's period
+UPDATE "attendances" SET "periodKey" = 'session:' || "attendanceSessionId" WHERE "attendanceSessionId" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "attendances_classScheduleId_idx" ON "attendances"("classScheduleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendances_userId_courseId_date_periodKey_key" ON "attendances"("userId", "courseId", "date", "periodKey");
+
+-- AddForeignKey
+ALTER TABLE "attendances" ADD CONSTRAINT "attendances_classScheduleId_fkey" FOREIGN KEY ("classScheduleId") REFERENCES "class_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
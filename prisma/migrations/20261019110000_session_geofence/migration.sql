@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "attendance_sessions" ADD COLUMN     "classScheduleId" TEXT,
+ADD COLUMN     "geofenceRadius" INTEGER,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "checkInLatitude" DOUBLE PRECISION,
+ADD COLUMN     "checkInLongitude" DOUBLE PRECISION,
+ADD COLUMN     "locationAccuracy" DOUBLE PRECISION,
+ADD COLUMN     "locationDistance" DOUBLE PRECISION,
+ADD COLUMN     "locationFlagged" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "class_schedules" ADD COLUMN     "roomGeofenceRadius" INTEGER,
+ADD COLUMN     "roomLatitude" DOUBLE PRECISION,
+ADD COLUMN     "roomLongitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "attendance_sessions_classScheduleId_idx" ON "attendance_sessions"("classScheduleId");
+
+-- CreateIndex
+CREATE INDEX "attendances_locationFlagged_idx" ON "attendances"("locationFlagged");
+
+-- AddForeignKey
+ALTER TABLE "attendance_sessions" ADD CONSTRAINT "attendance_sessions_classScheduleId_fkey" FOREIGN KEY ("classScheduleId") REFERENCES "class_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
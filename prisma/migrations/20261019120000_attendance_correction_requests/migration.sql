@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "CorrectionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "attendance_correction_requests" (
+    "id" TEXT NOT NULL,
+    "attendanceId" TEXT NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "currentStatus" "AttendanceStatus" NOT NULL,
+    "requestedStatus" "AttendanceStatus" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "attachment" TEXT,
+    "status" "CorrectionStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_correction_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_correction_requests_attendanceId_idx" ON "attendance_correction_requests"("attendanceId");
+
+-- CreateIndex
+CREATE INDEX "attendance_correction_requests_requestedBy_idx" ON "attendance_correction_requests"("requestedBy");
+
+-- CreateIndex
+CREATE INDEX "attendance_correction_requests_status_idx" ON "attendance_correction_requests"("status");
+
+-- AddForeignKey
+ALTER TABLE "attendance_correction_requests" ADD CONSTRAINT "attendance_correction_requests_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "attendances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_correction_requests" ADD CONSTRAINT "attendance_correction_requests_requestedBy_fkey" FOREIGN KEY ("requestedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_correction_requests" ADD CONSTRAINT "attendance_correction_requests_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
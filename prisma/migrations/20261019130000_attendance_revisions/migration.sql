@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "attendance_revisions" (
+    "id" TEXT NOT NULL,
+    "attendanceId" TEXT NOT NULL,
+    "changedBy" TEXT,
+    "previousStatus" "AttendanceStatus" NOT NULL,
+    "newStatus" "AttendanceStatus" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_revisions_attendanceId_idx" ON "attendance_revisions"("attendanceId");
+
+-- CreateIndex
+CREATE INDEX "attendance_revisions_changedBy_idx" ON "attendance_revisions"("changedBy");
+
+-- AddForeignKey
+ALTER TABLE "attendance_revisions" ADD CONSTRAINT "attendance_revisions_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "attendances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_revisions" ADD CONSTRAINT "attendance_revisions_changedBy_fkey" FOREIGN KEY ("changedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "attendance_locks" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "semesterId" TEXT,
+    "departmentId" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lockedBy" TEXT NOT NULL,
+    "unlockedBy" TEXT,
+    "unlockedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_locks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_locks_isActive_startDate_endDate_idx" ON "attendance_locks"("isActive", "startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "attendance_locks_semesterId_idx" ON "attendance_locks"("semesterId");
+
+-- CreateIndex
+CREATE INDEX "attendance_locks_departmentId_idx" ON "attendance_locks"("departmentId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_locks" ADD CONSTRAINT "attendance_locks_semesterId_fkey" FOREIGN KEY ("semesterId") REFERENCES "semesters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_locks" ADD CONSTRAINT "attendance_locks_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "departments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_locks" ADD CONSTRAINT "attendance_locks_lockedBy_fkey" FOREIGN KEY ("lockedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_locks" ADD CONSTRAINT "attendance_locks_unlockedBy_fkey" FOREIGN KEY ("unlockedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "attendance_sessions" ADD COLUMN     "autoGenerated" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "AttendanceStatus" ADD VALUE 'PARTIAL';
+
+-- AlterTable
+ALTER TABLE "courses" ADD COLUMN     "earlyLeaveStatus" "AttendanceStatus",
+ADD COLUMN     "minPresencePercent" INTEGER;
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "minutesAttended" INTEGER;
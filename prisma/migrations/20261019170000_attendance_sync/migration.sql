@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "SyncOperationResult" AS ENUM ('PENDING', 'APPLIED', 'CONFLICT', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "attendance_sync_operations" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "submittedBy" TEXT NOT NULL,
+    "deviceTimestamp" TIMESTAMP(3) NOT NULL,
+    "attendanceId" TEXT,
+    "result" "SyncOperationResult" NOT NULL DEFAULT 'PENDING',
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_sync_operations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_sync_operations_attendanceId_idx" ON "attendance_sync_operations"("attendanceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_sync_operations_submittedBy_clientId_key" ON "attendance_sync_operations"("submittedBy", "clientId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_sync_operations" ADD CONSTRAINT "attendance_sync_operations_submittedBy_fkey" FOREIGN KEY ("submittedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_sync_operations" ADD CONSTRAINT "attendance_sync_operations_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "attendances"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "AnomalyType" AS ENUM ('SHARED_DEVICE', 'MULTIPLE_DEVICES');
+
+-- CreateEnum
+CREATE TYPE "AnomalyStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "checkInIp" TEXT,
+ADD COLUMN     "checkInUserAgent" TEXT,
+ADD COLUMN     "deviceFingerprint" TEXT,
+ADD COLUMN     "proxyFlagged" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "attendance_anomalies" (
+    "id" TEXT NOT NULL,
+    "attendanceId" TEXT NOT NULL,
+    "type" "AnomalyType" NOT NULL,
+    "details" TEXT NOT NULL,
+    "status" "AnomalyStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_anomalies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendances_attendanceSessionId_deviceFingerprint_idx" ON "attendances"("attendanceSessionId", "deviceFingerprint");
+
+-- CreateIndex
+CREATE INDEX "attendances_proxyFlagged_idx" ON "attendances"("proxyFlagged");
+
+-- CreateIndex
+CREATE INDEX "attendance_anomalies_status_idx" ON "attendance_anomalies"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_anomalies_attendanceId_type_key" ON "attendance_anomalies"("attendanceId", "type");
+
+-- AddForeignKey
+ALTER TABLE "attendance_anomalies" ADD CONSTRAINT "attendance_anomalies_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "attendances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_anomalies" ADD CONSTRAINT "attendance_anomalies_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "DeviceResetStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'DEVICE_REGISTERED';
+ALTER TYPE "AuditAction" ADD VALUE 'DEVICE_RESET_REQUESTED';
+ALTER TYPE "AuditAction" ADD VALUE 'DEVICE_RESET_APPROVED';
+ALTER TYPE "AuditAction" ADD VALUE 'DEVICE_RESET_REJECTED';
+
+-- CreateTable
+CREATE TABLE "trusted_devices" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "name" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trusted_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "device_reset_requests" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "DeviceResetStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "device_reset_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trusted_devices_userId_isActive_idx" ON "trusted_devices"("userId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trusted_devices_userId_fingerprint_key" ON "trusted_devices"("userId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "device_reset_requests_userId_idx" ON "device_reset_requests"("userId");
+
+-- CreateIndex
+CREATE INDEX "device_reset_requests_status_idx" ON "device_reset_requests"("status");
+
+-- AddForeignKey
+ALTER TABLE "trusted_devices" ADD CONSTRAINT "trusted_devices_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "device_reset_requests" ADD CONSTRAINT "device_reset_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "device_reset_requests" ADD CONSTRAINT "device_reset_requests_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
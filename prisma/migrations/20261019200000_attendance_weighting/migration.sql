@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "departments" ADD COLUMN     "excludeExcused" BOOLEAN,
+ADD COLUMN     "lateWeight" DOUBLE PRECISION,
+ADD COLUMN     "partialWeight" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "courses" ADD COLUMN     "excludeExcused" BOOLEAN,
+ADD COLUMN     "lateWeight" DOUBLE PRECISION,
+ADD COLUMN     "partialWeight" DOUBLE PRECISION;
@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'CONDONATION_GRANTED';
+ALTER TYPE "AuditAction" ADD VALUE 'CONDONATION_REVOKED';
+
+-- CreateTable
+CREATE TABLE "attendance_condonations" (
+    "id" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "grantedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_condonations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_condonations_userId_idx" ON "attendance_condonations"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_condonations_courseId_userId_key" ON "attendance_condonations"("courseId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_condonations" ADD CONSTRAINT "attendance_condonations_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_condonations" ADD CONSTRAINT "attendance_condonations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_condonations" ADD CONSTRAINT "attendance_condonations_grantedBy_fkey" FOREIGN KEY ("grantedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AbsenceEscalationLevel" AS ENUM ('STUDENT', 'TEACHER', 'DEPARTMENT_HEAD');
+
+-- CreateTable
+CREATE TABLE "absence_streak_alerts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "courseId" TEXT,
+    "scope" TEXT NOT NULL,
+    "streakStart" TIMESTAMP(3) NOT NULL,
+    "streakLength" INTEGER NOT NULL,
+    "level" "AbsenceEscalationLevel" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "absence_streak_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "absence_streak_alerts_courseId_idx" ON "absence_streak_alerts"("courseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "absence_streak_alerts_userId_scope_streakStart_level_key" ON "absence_streak_alerts"("userId", "scope", "streakStart", "level");
+
+-- AddForeignKey
+ALTER TABLE "absence_streak_alerts" ADD CONSTRAINT "absence_streak_alerts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "absence_streak_alerts" ADD CONSTRAINT "absence_streak_alerts_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
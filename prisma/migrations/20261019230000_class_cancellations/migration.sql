@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "attendance_sessions" ADD COLUMN "makeUpClassId" TEXT;
+
+-- CreateTable
+CREATE TABLE "class_cancellations" (
+    "id" TEXT NOT NULL,
+    "classScheduleId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "cancelledBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "class_cancellations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "make_up_classes" (
+    "id" TEXT NOT NULL,
+    "cancellationId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "room" TEXT,
+    "notes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "make_up_classes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_sessions_makeUpClassId_idx" ON "attendance_sessions"("makeUpClassId");
+
+-- CreateIndex
+CREATE INDEX "class_cancellations_date_idx" ON "class_cancellations"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "class_cancellations_classScheduleId_date_key" ON "class_cancellations"("classScheduleId", "date");
+
+-- CreateIndex
+CREATE INDEX "make_up_classes_cancellationId_idx" ON "make_up_classes"("cancellationId");
+
+-- CreateIndex
+CREATE INDEX "make_up_classes_date_idx" ON "make_up_classes"("date");
+
+-- AddForeignKey
+ALTER TABLE "attendance_sessions" ADD CONSTRAINT "attendance_sessions_makeUpClassId_fkey" FOREIGN KEY ("makeUpClassId") REFERENCES "make_up_classes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "class_cancellations" ADD CONSTRAINT "class_cancellations_classScheduleId_fkey" FOREIGN KEY ("classScheduleId") REFERENCES "class_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "class_cancellations" ADD CONSTRAINT "class_cancellations_cancelledBy_fkey" FOREIGN KEY ("cancelledBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "make_up_classes" ADD CONSTRAINT "make_up_classes_cancellationId_fkey" FOREIGN KEY ("cancellationId") REFERENCES "class_cancellations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "make_up_classes" ADD CONSTRAINT "make_up_classes_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "CalendarEventType" AS ENUM ('HOLIDAY', 'BREAK', 'EXAM_PERIOD');
+
+-- AlterTable
+ALTER TABLE "batches" ADD COLUMN "workingDays" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "departments" ADD COLUMN "workingDays" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "academic_calendar_events" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "CalendarEventType" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "departmentId" TEXT,
+    "batchId" TEXT,
+    "description" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "academic_calendar_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "academic_calendar_events_startDate_endDate_idx" ON "academic_calendar_events"("startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "academic_calendar_events_departmentId_idx" ON "academic_calendar_events"("departmentId");
+
+-- CreateIndex
+CREATE INDEX "academic_calendar_events_batchId_idx" ON "academic_calendar_events"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "academic_calendar_events" ADD CONSTRAINT "academic_calendar_events_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "departments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "academic_calendar_events" ADD CONSTRAINT "academic_calendar_events_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "academic_calendar_events" ADD CONSTRAINT "academic_calendar_events_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
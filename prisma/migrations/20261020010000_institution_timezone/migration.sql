@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "departments" ADD COLUMN "timezone" TEXT;
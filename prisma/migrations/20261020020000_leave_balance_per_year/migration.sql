@@ -0,0 +1,12 @@
+-- DropIndex
+DROP INDEX "leave_balances_userId_key";
+
+-- DropIndex
+DROP INDEX "leave_balances_studentId_key";
+
+-- DropIndex
+DROP INDEX "leave_balances_teacherId_key";
+
+-- AlterTable
+ALTER TABLE "leave_requests" ADD COLUMN     "academicYear" TEXT,
+ADD COLUMN     "balanceDays" INTEGER NOT NULL DEFAULT 0;
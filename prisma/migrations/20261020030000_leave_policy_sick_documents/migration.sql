@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "leave_policies" ADD COLUMN     "sickDocumentDays" INTEGER NOT NULL DEFAULT 2;
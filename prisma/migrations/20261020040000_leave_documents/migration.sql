@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "leave_documents" (
+    "id" TEXT NOT NULL,
+    "leaveRequestId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "storedName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "uploadedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "leave_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leave_documents_storedName_key" ON "leave_documents"("storedName");
+
+-- CreateIndex
+CREATE INDEX "leave_documents_leaveRequestId_idx" ON "leave_documents"("leaveRequestId");
+
+-- AddForeignKey
+ALTER TABLE "leave_documents" ADD CONSTRAINT "leave_documents_leaveRequestId_fkey" FOREIGN KEY ("leaveRequestId") REFERENCES "leave_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leave_documents" ADD CONSTRAINT "leave_documents_uploadedBy_fkey" FOREIGN KEY ("uploadedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- Backfill: records taken in a session run for a class schedule slot share the slot's period key, so the
+-- period is counted once. Records that would collide with one already kept for the slot are left as they are.
+UPDATE "attendances" AS a
+SET "classScheduleId" = COALESCE(a."classScheduleId", s."classScheduleId"),
+    "periodKey" = 'schedule:' || COALESCE(a."classScheduleId", s."classScheduleId")
+FROM "attendance_sessions" AS s
+WHERE a."attendanceSessionId" = s."id"
+  AND a."periodKey" = 'session:' || s."id"
+  AND COALESCE(a."classScheduleId", s."classScheduleId") IS NOT NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM "attendances" AS b
+      WHERE b."userId" = a."userId"
+        AND b."courseId" = a."courseId"
+        AND b."date" = a."date"
+        AND b."periodKey" = 'schedule:' || COALESCE(a."classScheduleId", s."classScheduleId")
+  );
@@ -1,6 +1,9 @@
 // An instance of Error To Send Error With Various Status Code
 class AppError extends Error {
   public statusCode;
+  // Optional machine-readable reason and context the client can act on
+  public errorCode?: string;
+  public details?: Record<string, unknown>;
   constructor(statusCode: number, message: string, stack = ' ') {
     super(message);
     this.statusCode = statusCode;
@@ -0,0 +1,14 @@
+import { StatusCodes } from 'http-status-codes';
+import AppError from './AppError';
+import { LeavePolicyViolation } from '../modules/leave/leave.interface';
+
+// A leave request the leave policy or balance does not allow, with a code the client can show its own message for
+class LeavePolicyError extends AppError {
+  constructor(errorCode: LeavePolicyViolation, message: string, details?: Record<string, unknown>) {
+    super(StatusCodes.BAD_REQUEST, message);
+    this.errorCode = errorCode;
+    this.details = details;
+  }
+}
+
+export default LeavePolicyError;
@@ -7,6 +7,8 @@ export type TGenericErrorResponse = {
   statusCode: number;
   success: boolean;
   message: string;
+  errorCode?: string;
+  details?: Record<string, unknown>;
   errorSources?: TErrorSources;
   stack?: string;
 };
@@ -25,6 +25,8 @@ const globalErrorHandler: ErrorRequestHandler = (
   let statusCode = 500;
   let message = 'Something Went Wrong';
   let errorSources: TErrorSources = [{ path: ' ', message: 'Something Went Wrong' }];
+  let errorCode: string | undefined;
+  let details: Record<string, unknown> | undefined;
   let stack: string | undefined;
   // Handle different error types
   if (error instanceof ZodError) {
@@ -57,6 +59,8 @@ const globalErrorHandler: ErrorRequestHandler = (
   } else if (error instanceof AppError) {
     statusCode = error.statusCode;
     message = error.message;
+    errorCode = error.errorCode;
+    details = error.details;
     errorSources = [{ path: ' ', message: error.message }];
   } else if (error instanceof Error) {
     message = error.message;
@@ -75,6 +79,10 @@ const globalErrorHandler: ErrorRequestHandler = (
     message,
   };
 
+  // Codes are part of the API contract, not debug info
+  if (errorCode) response.errorCode = errorCode;
+  if (details) response.details = details;
+
   // Add debug info only in development
   if (config.node_env === 'development') {
     response.errorSources = errorSources;
@@ -0,0 +1,149 @@
+import { NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { StatusCodes } from 'http-status-codes';
+import catchAsync from '../utils/catchAsync';
+import AppError from '../errors/AppError';
+import { SettingsService } from '../modules/settings/settings.service';
+import { DEFAULT_SETTINGS } from '../modules/settings/settings.interface';
+
+// Private uploads live outside public/, so they are only served through routes that check who is asking
+const PRIVATE_UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+
+/**
+ * Absolute path of a file in a folder of the private uploads directory
+ */
+export const getPrivateFilePath = (folder: string, storedName: string) =>
+  path.join(PRIVATE_UPLOADS_DIR, folder, path.basename(storedName));
+
+// Content types and leading bytes each uploadable extension must match; extensions not listed here are refused
+const FILE_TYPES: Record<string, { mimeTypes: string[]; signature?: Buffer }> = {
+  pdf: { mimeTypes: ['application/pdf'], signature: Buffer.from('%PDF-') },
+  png: { mimeTypes: ['image/png'], signature: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  jpg: { mimeTypes: ['image/jpeg'], signature: Buffer.from([0xff, 0xd8, 0xff]) },
+  jpeg: { mimeTypes: ['image/jpeg'], signature: Buffer.from([0xff, 0xd8, 0xff]) },
+  gif: { mimeTypes: ['image/gif'], signature: Buffer.from('GIF8') },
+  webp: { mimeTypes: ['image/webp'], signature: Buffer.from('RIFF') },
+  doc: { mimeTypes: ['application/msword'], signature: Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+  xls: { mimeTypes: ['application/vnd.ms-excel'], signature: Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+  docx: {
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    signature: Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  },
+  xlsx: {
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    signature: Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  },
+  // Plain text has no signature to check
+  csv: { mimeTypes: ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'] },
+  txt: { mimeTypes: ['text/plain'] },
+};
+
+const getExtension = (fileName: string) => path.extname(fileName).slice(1).toLowerCase();
+
+// The first bytes of a stored file
+const readHead = async (filePath: string, length: number): Promise<Buffer> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+// Refuse a file whose content does not start the way its extension says it should
+const assertSignature = async (file: Express.Multer.File) => {
+  const signature = FILE_TYPES[getExtension(file.originalname)]?.signature;
+  if (!signature) {
+    return;
+  }
+
+  const head = await readHead(file.path, signature.length);
+  if (!head.equals(signature)) {
+    throw new AppError(StatusCodes.UNSUPPORTED_MEDIA_TYPE, `"${file.originalname}" does not match its file type`);
+  }
+};
+
+const getAllowedExtensions = async (): Promise<string[]> => {
+  const setting = String(await SettingsService.getSetting('system.allowedFileTypes') || DEFAULT_SETTINGS['system.allowedFileTypes']);
+  return setting
+    .split(',')
+    .map((type) => type.trim().toLowerCase().replace(/^\./, ''))
+    .filter((type) => type in FILE_TYPES);
+};
+
+const toAppError = (error: unknown, maxFileSize: number, field: string) => {
+  if (!(error instanceof multer.MulterError)) {
+    return error;
+  }
+
+  if (error.code === 'LIMIT_FILE_SIZE') {
+    const megabytes = Math.round((maxFileSize / (1024 * 1024)) * 10) / 10;
+    return new AppError(StatusCodes.REQUEST_TOO_LONG, `Files can be at most ${megabytes} MB`);
+  }
+  if (error.code === 'LIMIT_FILE_COUNT' || error.code === 'LIMIT_UNEXPECTED_FILE') {
+    return new AppError(StatusCodes.BAD_REQUEST, `Too many files, or files sent in a field other than "${field}"`);
+  }
+  return new AppError(StatusCodes.BAD_REQUEST, error.message);
+};
+
+/**
+ * Accept up to maxCount multipart files in a field into a folder of the private uploads directory,
+ * within the system.maxFileSize and system.allowedFileTypes settings; each file's content type and
+ * leading bytes must match its extension. Requests without a multipart body pass through untouched;
+ * files of a request that ends in an error are removed again.
+ */
+const privateUpload = (folder: string, field: string, maxCount: number) => {
+  return catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const [maxFileSize, allowedExtensions] = await Promise.all([
+      SettingsService.getNumberSetting('system.maxFileSize'),
+      getAllowedExtensions(),
+    ]);
+
+    const destination = path.join(PRIVATE_UPLOADS_DIR, folder);
+    await fs.promises.mkdir(destination, { recursive: true });
+
+    const upload = multer({
+      storage: multer.diskStorage({
+        destination,
+        // Stored under a random name; the original name is only kept in the database
+        filename: (req, file, cb) => cb(null, `${crypto.randomUUID()}${path.extname(file.originalname).toLowerCase()}`),
+      }),
+      limits: { fileSize: maxFileSize, files: maxCount },
+      fileFilter: (req, file, cb) => {
+        const extension = getExtension(file.originalname);
+        if (!allowedExtensions.includes(extension)) {
+          cb(new AppError(StatusCodes.UNSUPPORTED_MEDIA_TYPE, `Only ${allowedExtensions.join(', ')} files can be uploaded`));
+          return;
+        }
+        if (!FILE_TYPES[extension].mimeTypes.includes(file.mimetype)) {
+          cb(new AppError(StatusCodes.UNSUPPORTED_MEDIA_TYPE, `"${file.originalname}" was sent as ${file.mimetype}, not as a ${extension} file`));
+          return;
+        }
+        cb(null, true);
+      },
+    }).array(field, maxCount);
+
+    await new Promise<void>((resolve, reject) => {
+      upload(req, res, (error: unknown) => (error ? reject(toAppError(error, maxFileSize, field)) : resolve()));
+    });
+
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    res.on('finish', () => {
+      if (res.statusCode >= 400) {
+        files.forEach((file) => fs.promises.unlink(file.path).catch(() => undefined));
+      }
+    });
+
+    // The extension and content type are only what the client claims; check the content itself once stored
+    await Promise.all(files.map(assertSignature));
+
+    next();
+  });
+};
+
+export default privateUpload;
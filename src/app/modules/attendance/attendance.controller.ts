@@ -22,13 +22,30 @@ const recordAttendance = catchAsync(async (req: Request, res: Response) => {
  */
 const updateAttendance = catchAsync(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const result = await attendanceServices.updateAttendance(id, req.body);
+    const { reason, ...data } = req.body;
+    const result = await attendanceServices.updateAttendance(id, data, {
+        userId: req.user.id,
+        role: req.user.role,
+        reason,
+    });
     sendResponse(res, {
         message: "Attendance updated successfully",
         data: result,
     });
 });
 
+/**
+ * Get the edit history of an attendance record
+ */
+const getAttendanceHistory = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const result = await attendanceServices.getAttendanceHistory(id, req.user.id, req.user.role);
+    sendResponse(res, {
+        message: "Attendance history retrieved successfully",
+        data: result,
+    });
+});
+
 /**
  * Get attendance by ID
  */
@@ -56,7 +73,12 @@ const getAttendances = catchAsync(async (req: Request, res: Response) => {
  * Bulk mark attendance for multiple students
  */
 const bulkMarkAttendance = catchAsync(async (req: Request, res: Response) => {
-    const result = await attendanceServices.bulkMarkAttendance(req.body);
+    const { reason, ...data } = req.body;
+    const result = await attendanceServices.bulkMarkAttendance({ ...data, markedBy: req.user.id }, {
+        userId: req.user.id,
+        role: req.user.role,
+        reason,
+    });
     sendResponse(res, {
         statusCode: StatusCodes.CREATED,
         message: "Attendance marked successfully for all students",
@@ -102,30 +124,6 @@ const getStudentAttendanceSummary = catchAsync(async (req: Request, res: Respons
     });
 });
 
-/**
- * Create QR code for attendance check-in
- */
-const createQRCode = catchAsync(async (req: Request, res: Response) => {
-    const result = await attendanceServices.createQRCode(req.body);
-    sendResponse(res, {
-        statusCode: StatusCodes.CREATED,
-        message: "QR code created successfully",
-        data: result,
-    });
-});
-
-/**
- * Process QR code check-in
- */
-const processQRCodeCheckIn = catchAsync(async (req: Request, res: Response) => {
-    const result = await attendanceServices.processQRCodeCheckIn(req.body);
-    sendResponse(res, {
-        statusCode: StatusCodes.CREATED,
-        message: "Check-in successful",
-        data: result,
-    });
-});
-
 /**
  * Create attendance session
  */
@@ -153,12 +151,11 @@ export const attendanceControllers = {
     recordAttendance,
     updateAttendance,
     getAttendanceById,
+    getAttendanceHistory,
     getAttendances,
     bulkMarkAttendance,
     getCourseAttendanceSummary,
     getStudentAttendanceSummary,
-    createQRCode,
-    processQRCodeCheckIn,
     createAttendanceSession,
     getAttendanceDashboard,
 };
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { User, Course, AttendanceSession } from '@prisma/client';
 
 // Attendance status type
-export type AttendanceStatus = 'PRESENT' | 'ABSENT' | 'LATE' | 'EXCUSED';
+export type AttendanceStatus = 'PRESENT' | 'ABSENT' | 'LATE' | 'EXCUSED' | 'PARTIAL';
 
 // Base attendance interface
 export interface IAttendance {
@@ -14,10 +14,35 @@ export interface IAttendance {
     checkOut?: Date;
     notes?: string;
     markedBy?: string;
+    attendanceSessionId?: string | null;
+    classScheduleId?: string | null;
+    periodKey: string;
+    checkInLatitude?: number | null;
+    checkInLongitude?: number | null;
+    locationAccuracy?: number | null;
+    locationDistance?: number | null;
+    locationFlagged?: boolean;
+    minutesAttended?: number | null;
+    checkInIp?: string | null;
+    checkInUserAgent?: string | null;
+    deviceFingerprint?: string | null;
+    proxyFlagged?: boolean;
     createdAt: Date;
     updatedAt: Date;
 }
 
+// Identifies a single class period within a day
+export interface IAttendancePeriod {
+    attendanceSessionId?: string | null;
+    classScheduleId?: string | null;
+}
+
+// A class period checked against its course, with the schedule slot of a scheduled session filled in
+export interface IResolvedAttendancePeriod {
+    attendanceSessionId?: string;
+    classScheduleId?: string;
+}
+
 // Attendance with relationships
 export interface IAttendanceWithRelations extends IAttendance {
     user: User;
@@ -36,6 +61,17 @@ export interface IAttendanceCreate {
     checkOut?: Date;
     notes?: string;
     markedBy?: string;
+    attendanceSessionId?: string;
+    classScheduleId?: string;
+    checkInLatitude?: number;
+    checkInLongitude?: number;
+    locationAccuracy?: number;
+    locationDistance?: number;
+    locationFlagged?: boolean;
+    checkInIp?: string;
+    checkInUserAgent?: string;
+    deviceFingerprint?: string;
+    overrideStatus?: boolean;
 }
 
 // Update attendance interface
@@ -45,15 +81,63 @@ export interface IAttendanceUpdate {
     checkOut?: Date;
     notes?: string;
     markedBy?: string;
+    locationFlagged?: boolean;
+    minutesAttended?: number | null;
+    proxyFlagged?: boolean;
+    overrideStatus?: boolean;
+}
+
+// Who is editing an attendance record, and why
+export interface IAttendanceEditor {
+    userId: string;
+    role: string;
+    reason?: string;
+}
+
+// Field-level before/after values of one attendance edit
+export type IAttendanceChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Attendance revision interface
+export interface IAttendanceRevision {
+    id: string;
+    attendanceId: string;
+    changedBy?: string | null;
+    previousStatus: AttendanceStatus;
+    newStatus: AttendanceStatus;
+    changes: IAttendanceChanges;
+    reason?: string | null;
+    createdAt: Date;
+}
+
+// Create attendance revision interface
+export interface IAttendanceRevisionCreate {
+    changedBy?: string;
+    previousStatus: AttendanceStatus;
+    changes: IAttendanceChanges;
+    reason?: string;
+}
+
+// Input for deriving PRESENT vs LATE from a check-in time
+export interface IAttendanceStatusInput {
+    courseId: string;
+    status?: AttendanceStatus;
+    checkIn?: Date | string | null;
+    sessionStart?: Date;
+    classScheduleId?: string | null;
+    overrideStatus?: boolean;
 }
 
 // Bulk attendance marking interface
 export interface IBulkAttendanceCreate {
     courseId: string;
     date: Date;
+    attendanceSessionId?: string;
+    classScheduleId?: string;
     attendances: {
         userId: string;
         status: AttendanceStatus;
+        checkIn?: Date;
+        checkOut?: Date;
         notes?: string;
     }[];
     markedBy: string;
@@ -70,6 +154,12 @@ export interface IAttendanceSession {
     isActive: boolean;
     location?: string | null;
     notes?: string | null;
+    classScheduleId?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    geofenceRadius?: number | null;
+    autoGenerated: boolean;
+    makeUpClassId?: string | null;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -89,6 +179,12 @@ export interface IAttendanceSessionCreate {
     endTime?: Date | null;
     location?: string | null;
     notes?: string | null;
+    classScheduleId?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    geofenceRadius?: number | null;
+    autoGenerated?: boolean;
+    makeUpClassId?: string | null;
 }
 
 // Attendance session filters interface
@@ -124,6 +220,144 @@ export interface IAttendanceSessionStats {
     courseId: string;
 }
 
+// Live roster of a session: running counts and the students who have not arrived yet
+export interface IAttendanceSessionRoster {
+    sessionId: string;
+    isActive: boolean;
+    counts: {
+        enrolled: number;
+        present: number;
+        late: number;
+        absent: number;
+        excused: number;
+        partial: number;
+        flagged: number;
+        notArrived: number;
+    };
+    notArrived: {
+        id: string;
+        name: string;
+        email: string;
+    }[];
+}
+
+// Event pushed to subscribers of a live session stream
+export type IAttendanceSessionEvent =
+    | { type: 'check-in'; attendance: IAttendance }
+    | { type: 'attendance-updated'; attendanceId?: string }
+    | { type: 'session-ended'; sessionId: string };
+
+// Ended attendance session with the records generated for students who never checked in
+export interface IEndedAttendanceSession extends IAttendanceSession {
+    generatedRecords: {
+        absent: number;
+        excused: number;
+        total: number;
+    };
+}
+
+// Attendance session check-in code interface
+export interface IAttendanceSessionCode {
+    id: string;
+    attendanceSessionId: string;
+    code: string;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+// Student session check-in interface
+export interface ISessionCheckIn {
+    sessionId: string;
+    code: string;
+    userId: string;
+    latitude?: number;
+    longitude?: number;
+    accuracy?: number;
+    ipAddress?: string;
+    userAgent?: string;
+    deviceFingerprint?: string;
+}
+
+// Check-out from a session; teachers name the student and may backdate the time
+export interface ISessionCheckOut {
+    sessionId: string;
+    userId?: string;
+    checkOut?: Date | string;
+    actorId: string;
+    role: string;
+}
+
+// Teacher review of a check-in flagged outside the session geofence
+export interface ILocationReview {
+    attendanceId: string;
+    approved: boolean;
+    reviewerId: string;
+    role: string;
+}
+
+// Attendance lock interface
+export interface IAttendanceLock {
+    id: string;
+    name: string;
+    semesterId?: string | null;
+    departmentId?: string | null;
+    startDate: Date;
+    endDate: Date;
+    reason?: string | null;
+    isActive: boolean;
+    lockedBy: string;
+    unlockedBy?: string | null;
+    unlockedAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Create attendance lock interface: either a semester or an explicit date range
+export interface IAttendanceLockCreate {
+    name?: string;
+    semesterId?: string;
+    departmentId?: string;
+    startDate?: Date | string;
+    endDate?: Date | string;
+    reason?: string;
+    lockedBy: string;
+}
+
+// Attendance lock filters interface
+export interface IAttendanceLockFilters {
+    isActive?: boolean | string;
+    semesterId?: string;
+    departmentId?: string;
+}
+
+// Cancel one occurrence of a class schedule slot
+export interface IClassCancellationCreate {
+    classScheduleId: string;
+    date: Date | string;
+    reason: string;
+    cancelledBy: string;
+    role: string;
+}
+
+// Class cancellation filters interface
+export interface IClassCancellationFilters {
+    courseId?: string;
+    classScheduleId?: string;
+    startDate?: Date | string;
+    endDate?: Date | string;
+}
+
+// Schedule a make-up class for a cancelled occurrence
+export interface IMakeUpClassCreate {
+    cancellationId: string;
+    date: Date | string;
+    startTime: string;
+    endTime: string;
+    room?: string;
+    notes?: string;
+    createdBy: string;
+    role: string;
+}
 
 // Attendance filters interface
 export interface IAttendanceFilters {
@@ -135,6 +369,7 @@ export interface IAttendanceFilters {
     batchId?: string;
     departmentId?: string;
     reportType?: string;
+    locationFlagged?: boolean | string;
     page?: number;
     limit?: number;
     sortBy?: string;
@@ -145,17 +380,21 @@ export interface IAttendanceFilters {
 // Attendance summary interface
 export interface IAttendanceSummary {
     totalClasses: number;
+    totalPeriods: number;
     presentCount: number;
     absentCount: number;
     lateCount: number;
     excusedCount: number;
+    partialCount: number;
     attendancePercentage: number;
+    averageMinutesAttended: number | null;
     monthlyBreakdown?: {
         month: string;
         present: number;
         absent: number;
         late: number;
         excused: number;
+        partial: number;
     }[];
 }
 
@@ -208,3 +447,187 @@ export interface IAttendanceDashboard {
         attendance: number;
     }[];
 }
+
+// A single attendance change recorded on an offline device
+export interface IAttendanceSyncOperation {
+    clientId: string;
+    deviceTimestamp: Date | string;
+    userId: string;
+    courseId: string;
+    date: Date | string;
+    status: AttendanceStatus;
+    checkIn?: Date | string;
+    checkOut?: Date | string;
+    notes?: string;
+    attendanceSessionId?: string;
+    classScheduleId?: string;
+    overrideStatus?: boolean;
+}
+
+// A batch of offline operations and when the device last synced successfully
+export interface IAttendanceSyncRequest {
+    lastSyncedAt?: Date | string;
+    operations: IAttendanceSyncOperation[];
+    submittedBy: string;
+    role: string;
+}
+
+export type AttendanceSyncItemResult = 'APPLIED' | 'DUPLICATE' | 'CONFLICT' | 'REJECTED';
+
+// Outcome of one operation: the saved record, or the server version on conflict
+export interface IAttendanceSyncItem {
+    clientId: string;
+    result: AttendanceSyncItemResult;
+    attendance?: IAttendance | null;
+    message?: string;
+}
+
+export interface IAttendanceSyncResult {
+    syncedAt: Date;
+    results: IAttendanceSyncItem[];
+}
+
+export type AnomalyType = 'SHARED_DEVICE' | 'MULTIPLE_DEVICES';
+export type AnomalyStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// Suspected proxy check-in awaiting review
+export interface IAttendanceAnomaly {
+    id: string;
+    attendanceId: string;
+    type: AnomalyType;
+    details: string;
+    status: AnomalyStatus;
+    reviewedBy?: string | null;
+    reviewedAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Anomaly review queue filters
+export interface IAttendanceAnomalyFilters {
+    status?: AnomalyStatus;
+    type?: AnomalyType;
+    courseId?: string;
+    attendanceSessionId?: string;
+}
+
+// Teacher decision on a suspected proxy check-in
+export interface IAttendanceAnomalyReview {
+    anomalyId: string;
+    approved: boolean;
+    reviewerId: string;
+    role: string;
+}
+
+export type AttendanceRegisterFormat = 'csv' | 'xlsx';
+
+// Course register export options; dates default to the course's semester
+export interface IAttendanceRegisterFilters {
+    startDate?: string;
+    endDate?: string;
+    format?: AttendanceRegisterFormat;
+}
+
+// One class period in the register, shown as a column
+export interface IAttendanceRegisterColumn {
+    date: Date;
+    periodKey: string;
+    label: string;
+}
+
+// One enrolled student in the register, with a mark per column
+export interface IAttendanceRegisterRow {
+    userId: string;
+    studentId: string | null;
+    name: string;
+    marks: (string | null)[];
+    present: number;
+    absent: number;
+    late: number;
+    excused: number;
+    partial: number;
+    total: number;
+    percentage: number;
+}
+
+export interface IAttendanceRegister {
+    course: { id: string; code: string; title: string };
+    startDate: Date;
+    endDate: Date;
+    columns: IAttendanceRegisterColumn[];
+    rows: IAttendanceRegisterRow[];
+}
+
+// How marks count towards attendance percentages; resolved course -> department -> settings
+export interface IAttendancePolicy {
+    lateWeight: number;
+    partialWeight: number;
+    excludeExcused: boolean;
+}
+
+// Mark counts for one course; present, late and partial leave out suspected proxy check-ins
+export interface IAttendanceTally {
+    total: number;
+    present: number;
+    late: number;
+    partial: number;
+    excused: number;
+}
+
+export type EligibilityStatus = 'ELIGIBLE' | 'CONDONED' | 'INELIGIBLE';
+
+// A student's standing against attendance.minRequiredPercent in one course
+export interface IAttendanceEligibility {
+    userId: string;
+    studentId: string | null;
+    name: string;
+    attended: number; // classes attended, weighed by the attendance policy
+    counted: number; // classes counted towards the percentage
+    percentage: number;
+    sessionsShort: number; // further classes the student would have needed to attend
+    status: EligibilityStatus;
+    condonation: { id: string; reason: string; grantedBy: string; createdAt: Date } | null;
+}
+
+export interface ICourseEligibility {
+    course: { id: string; code: string; title: string };
+    threshold: number;
+    eligibleCount: number;
+    condonedCount: number;
+    ineligibleCount: number;
+    students: IAttendanceEligibility[];
+}
+
+export interface ISemesterEligibility {
+    semester: { id: string; name: string; year: number };
+    threshold: number;
+    courses: ICourseEligibility[];
+}
+
+// Eligibility report options
+export interface IEligibilityFilters {
+    status?: EligibilityStatus;
+    format?: AttendanceRegisterFormat;
+}
+
+// Department head decision exempting a student from the attendance requirement
+export interface ICondonationCreate {
+    courseId: string;
+    userId: string;
+    reason: string;
+    grantedBy: string;
+    role: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// Eligibility shown on the student dashboard, one entry per enrolled course
+export interface IStudentCourseEligibility {
+    courseId: string;
+    code: string;
+    title: string;
+    percentage: number;
+    threshold: number;
+    sessionsShort: number;
+    status: EligibilityStatus;
+}
@@ -1,9 +1,9 @@
 import prisma from '../../config/prisma';
+import { Prisma } from '@prisma/client';
 import {
     IAttendance,
     IAttendanceCreate,
     IAttendanceUpdate,
-    IBulkAttendanceCreate,
     IAttendanceSession,
     IAttendanceSessionCreate,
     IAttendanceFilters,
@@ -11,8 +11,39 @@ import {
     ICourseAttendanceStats,
     IStudentAttendanceStats,
     IAttendanceDashboard,
+    IAttendancePeriod,
+    IAttendanceRevisionCreate,
     AttendanceStatus
 } from './attendance.interface';
+import { AttendancePolicyService } from './attendancePolicy.service';
+
+// Build the period key that distinguishes multiple class periods of a course on the same day.
+// A session run for a schedule slot is keyed by the slot, so marks taken either way land on one record.
+export const getPeriodKey = (period: IAttendancePeriod = {}): string => {
+    if (period.classScheduleId) return `schedule:${period.classScheduleId}`;
+    if (period.attendanceSessionId) return `session:${period.attendanceSessionId}`;
+    return 'day';
+};
+
+// Count the distinct class periods (date + period) covered by the matching records
+const countPeriods = async (where: Prisma.AttendanceWhereInput): Promise<number> => {
+    const periods = await prisma.attendance.groupBy({
+        by: ['date', 'periodKey'],
+        where,
+    });
+
+    return periods.length;
+};
+
+// Average minutes attended across the matching records that have a recorded duration
+const averageMinutes = async (where: Prisma.AttendanceWhereInput): Promise<number | null> => {
+    const result = await prisma.attendance.aggregate({
+        where: { ...where, minutesAttended: { not: null } },
+        _avg: { minutesAttended: true },
+    });
+
+    return result._avg.minutesAttended === null ? null : Math.round(result._avg.minutesAttended);
+};
 
 // Attendance model operations
 export const AttendanceModel = {
@@ -27,6 +58,18 @@ export const AttendanceModel = {
                 checkIn: data.checkIn,
                 checkOut: data.checkOut,
                 notes: data.notes,
+                markedBy: data.markedBy,
+                attendanceSessionId: data.attendanceSessionId,
+                classScheduleId: data.classScheduleId,
+                periodKey: getPeriodKey(data),
+                checkInLatitude: data.checkInLatitude,
+                checkInLongitude: data.checkInLongitude,
+                locationAccuracy: data.locationAccuracy,
+                locationDistance: data.locationDistance,
+                locationFlagged: data.locationFlagged,
+                checkInIp: data.checkInIp,
+                checkInUserAgent: data.checkInUserAgent,
+                deviceFingerprint: data.deviceFingerprint,
             },
             include: {
                 user: {
@@ -54,14 +97,15 @@ export const AttendanceModel = {
         });
     },
 
-    // Find attendance by user, course, and date
-    findByUserCourseDate: async (userId: string, courseId: string, date: Date) => {
+    // Find attendance by user, course, date and class period
+    findByUserCourseDate: async (userId: string, courseId: string, date: Date, periodKey = 'day') => {
         return await prisma.attendance.findUnique({
             where: {
-                userId_courseId_date: {
+                userId_courseId_date_periodKey: {
                     userId,
                     courseId,
                     date: new Date(date),
+                    periodKey,
                 },
             },
             include: {
@@ -75,9 +119,16 @@ export const AttendanceModel = {
         });
     },
 
+    // Find attendance recorded against a specific attendance session
+    findBySessionUser: async (attendanceSessionId: string, userId: string) => {
+        return await prisma.attendance.findFirst({
+            where: { attendanceSessionId, userId },
+        });
+    },
+
     // Get attendance records with filters
     findMany: async (filters: IAttendanceFilters) => {
-        const { courseId, userId, status, startDate, endDate, page = 1, limit = 10, sortBy = 'date', sortOrder = 'desc', sort } = filters;
+        const { courseId, userId, status, startDate, endDate, locationFlagged, page = 1, limit = 10, sortBy = 'date', sortOrder = 'desc', sort } = filters;
         
         // Handle sort parameter format: "-createdAt" or "createdAt"
         let actualSortBy = sortBy;
@@ -98,6 +149,7 @@ export const AttendanceModel = {
         if (courseId) where.courseId = courseId;
         if (userId) where.userId = userId;
         if (status) where.status = status;
+        if (locationFlagged !== undefined) where.locationFlagged = String(locationFlagged) === 'true';
         if (startDate || endDate) {
             where.date = {};
             if (startDate) where.date.gte = new Date(startDate);
@@ -138,8 +190,8 @@ export const AttendanceModel = {
     },
 
     // Update attendance record
-    update: async (id: string, data: IAttendanceUpdate) => {
-        return await prisma.attendance.update({
+    update: async (id: string, data: IAttendanceUpdate, revision?: IAttendanceRevisionCreate) => {
+        const update = prisma.attendance.update({
             where: { id },
             data,
             include: {
@@ -151,6 +203,40 @@ export const AttendanceModel = {
                 },
             },
         });
+
+        if (!revision) {
+            return await update;
+        }
+
+        // Save the record and its revision together so history never misses an edit
+        const [result] = await prisma.$transaction([
+            update,
+            prisma.attendanceRevision.create({
+                data: {
+                    attendanceId: id,
+                    changedBy: revision.changedBy,
+                    previousStatus: revision.previousStatus,
+                    newStatus: data.status || revision.previousStatus,
+                    changes: revision.changes as Prisma.InputJsonValue,
+                    reason: revision.reason,
+                },
+            }),
+        ]);
+
+        return result;
+    },
+
+    // Get the edit history of an attendance record, newest first
+    findRevisions: async (attendanceId: string) => {
+        return await prisma.attendanceRevision.findMany({
+            where: { attendanceId },
+            include: {
+                editor: {
+                    select: { id: true, name: true, email: true, role: true },
+                },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
     },
 
     // Delete attendance record
@@ -160,45 +246,16 @@ export const AttendanceModel = {
         });
     },
 
-    // Bulk mark attendance
-    bulkMark: async (data: IBulkAttendanceCreate) => {
-        const { courseId, date, attendances, markedBy } = data;
-        const results = [];
-
-        for (const attendance of attendances) {
-            const result = await prisma.attendance.upsert({
-                where: {
-                    userId_courseId_date: {
-                        userId: attendance.userId,
-                        courseId,
-                        date: new Date(date),
-                    },
-                },
-                update: {
-                    status: attendance.status,
-                    notes: attendance.notes,
-                },
-                create: {
-                    userId: attendance.userId,
-                    courseId,
-                    date: new Date(date),
-                    status: attendance.status,
-                    notes: attendance.notes,
-                },
-                include: {
-                    user: {
-                        select: { id: true, name: true, email: true },
-                    },
-                    course: {
-                        select: { id: true, title: true, code: true },
-                    },
-                },
-            });
-
-            results.push(result);
-        }
-
-        return results;
+    // Find the records of one class period for the given users
+    findPeriodRecords: async (courseId: string, date: Date, periodKey: string, userIds: string[]) => {
+        return await prisma.attendance.findMany({
+            where: {
+                courseId,
+                date: new Date(date),
+                periodKey,
+                userId: { in: userIds },
+            },
+        });
     },
 
     // Get attendance summary for a course
@@ -213,19 +270,27 @@ export const AttendanceModel = {
 
         const [
             totalClasses,
+            totalPeriods,
             presentCount,
             absentCount,
             lateCount,
             excusedCount,
+            partialCount,
+            averageMinutesAttended,
         ] = await Promise.all([
             prisma.attendance.count({ where }),
-            prisma.attendance.count({ where: { ...where, status: 'PRESENT' } }),
+            countPeriods(where),
+            // Suspected proxy check-ins don't count as attended until a teacher approves them
+            prisma.attendance.count({ where: { ...where, status: 'PRESENT', proxyFlagged: false } }),
             prisma.attendance.count({ where: { ...where, status: 'ABSENT' } }),
-            prisma.attendance.count({ where: { ...where, status: 'LATE' } }),
+            prisma.attendance.count({ where: { ...where, status: 'LATE', proxyFlagged: false } }),
             prisma.attendance.count({ where: { ...where, status: 'EXCUSED' } }),
+            prisma.attendance.count({ where: { ...where, status: 'PARTIAL', proxyFlagged: false } }),
+            averageMinutes(where),
         ]);
 
-        const attendancePercentage = totalClasses > 0 ? Math.round((presentCount / totalClasses) * 100) : 0;
+        // LATE and PARTIAL marks and EXCUSED absences count according to the attendance policy
+        const attendancePercentage = Math.round(await AttendancePolicyService.getAttendancePercentage(where));
 
         // Get monthly breakdown (last 6 months)
         const sixMonthsAgo = new Date();
@@ -256,6 +321,7 @@ export const AttendanceModel = {
                     absent: 0,
                     late: 0,
                     excused: 0,
+                    partial: 0,
                     [item.status.toLowerCase()]: Number(item.count),
                 });
             }
@@ -265,11 +331,14 @@ export const AttendanceModel = {
 
         return {
             totalClasses,
+            totalPeriods,
             presentCount,
             absentCount,
             lateCount,
             excusedCount,
+            partialCount,
             attendancePercentage,
+            averageMinutesAttended,
             monthlyBreakdown,
         };
     },
@@ -286,19 +355,27 @@ export const AttendanceModel = {
 
         const [
             totalClasses,
+            totalPeriods,
             presentCount,
             absentCount,
             lateCount,
             excusedCount,
+            partialCount,
+            averageMinutesAttended,
         ] = await Promise.all([
             prisma.attendance.count({ where }),
-            prisma.attendance.count({ where: { ...where, status: 'PRESENT' } }),
+            countPeriods(where),
+            // Suspected proxy check-ins don't count as attended until a teacher approves them
+            prisma.attendance.count({ where: { ...where, status: 'PRESENT', proxyFlagged: false } }),
             prisma.attendance.count({ where: { ...where, status: 'ABSENT' } }),
-            prisma.attendance.count({ where: { ...where, status: 'LATE' } }),
+            prisma.attendance.count({ where: { ...where, status: 'LATE', proxyFlagged: false } }),
             prisma.attendance.count({ where: { ...where, status: 'EXCUSED' } }),
+            prisma.attendance.count({ where: { ...where, status: 'PARTIAL', proxyFlagged: false } }),
+            averageMinutes(where),
         ]);
 
-        const attendancePercentage = totalClasses > 0 ? Math.round((presentCount / totalClasses) * 100) : 0;
+        // LATE and PARTIAL marks and EXCUSED absences count according to the attendance policy
+        const attendancePercentage = Math.round(await AttendancePolicyService.getAttendancePercentage(where));
 
         // Get monthly breakdown (last 6 months)
         const sixMonthsAgo = new Date();
@@ -329,6 +406,7 @@ export const AttendanceModel = {
                     absent: 0,
                     late: 0,
                     excused: 0,
+                    partial: 0,
                     [item.status.toLowerCase()]: Number(item.count),
                 });
             }
@@ -338,11 +416,14 @@ export const AttendanceModel = {
 
         return {
             totalClasses,
+            totalPeriods,
             presentCount,
             absentCount,
             lateCount,
             excusedCount,
+            partialCount,
             attendancePercentage,
+            averageMinutesAttended,
             monthlyBreakdown,
         };
     },
@@ -361,6 +442,10 @@ export const AttendanceSessionModel = {
                 endTime: data.endTime,
                 location: data.location,
                 notes: data.notes,
+                classScheduleId: data.classScheduleId,
+                latitude: data.latitude,
+                longitude: data.longitude,
+                geofenceRadius: data.geofenceRadius,
                 isActive: true,
             },
             include: {
@@ -1,6 +1,12 @@
 import { Router } from "express";
 import { attendanceControllers } from "./attendance.controller";
 import { AttendanceSessionController } from "./attendanceSession.controller";
+import { AttendanceLockController } from "./attendanceLock.controller";
+import { AttendanceSyncController } from "./attendanceSync.controller";
+import { AttendanceAnomalyController } from "./attendanceAnomaly.controller";
+import { AttendanceRegisterController } from "./attendanceRegister.controller";
+import { AttendanceEligibilityController } from "./attendanceEligibility.controller";
+import { AttendanceCancellationController } from "./attendanceCancellation.controller";
 import validateRequest from "../../middlewares/validateRequest";
 import { attendanceValidation } from "./attendance.validation";
 import AuthorizeRequest from "../../middlewares/auth";
@@ -39,34 +45,196 @@ router.post(
 );
 
 /**
- * @description create QR code for attendance check-in
- * @param {string} path - /api/attendance/qr-code
- * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.createQRCodeSchema)']
- * @param {function} controller - ['createQRCode']
+ * @description sync attendance marked offline; each operation is applied once and reported as applied, duplicate, conflict or rejected
+ * @param {string} path - /api/attendance/sync
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.attendanceSyncSchema)']
+ * @param {function} controller - ['syncAttendance']
  * @returns {object} - router
  * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
  * @method POST
  */
 router.post(
-    "/qr-code",
+    "/sync",
     AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
-    validateRequest(attendanceValidation.createQRCodeSchema),
-    attendanceControllers.createQRCode
+    validateRequest(attendanceValidation.attendanceSyncSchema),
+    AttendanceSyncController.syncAttendance
 );
 
 /**
- * @description process QR code check-in
- * @param {string} path - /api/attendance/qr-checkin
- * @param {function} middleware - ['validateRequest(attendanceValidation.qrCodeCheckInSchema)']
- * @param {function} controller - ['processQRCodeCheckIn']
+ * @description check in to an active attendance session with its current code
+ * @param {string} path - /api/attendance/check-in
+ * @param {function} middleware - ['AuthorizeRequest(STUDENT)', 'validateRequest(attendanceValidation.sessionCheckInSchema)']
+ * @param {function} controller - ['checkIn']
+ * @returns {object} - router
+ * @access private - ['STUDENT']
+ * @method POST
+ */
+router.post(
+    "/check-in",
+    AuthorizeRequest('STUDENT'),
+    validateRequest(attendanceValidation.sessionCheckInSchema),
+    AttendanceSessionController.checkIn
+);
+
+/**
+ * @description check out of an attendance session; teachers can check out a student by userId
+ * @param {string} path - /api/attendance/check-out
+ * @param {function} middleware - ['AuthorizeRequest(STUDENT, TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.sessionCheckOutSchema)']
+ * @param {function} controller - ['checkOut']
+ * @returns {object} - router
+ * @access private - ['STUDENT', 'TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method POST
+ */
+router.post(
+    "/check-out",
+    AuthorizeRequest('STUDENT', 'TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.sessionCheckOutSchema),
+    AttendanceSessionController.checkOut
+);
+
+/**
+ * @description review queue of suspected proxy check-ins
+ * @param {string} path - /api/attendance/anomalies
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.anomalyFiltersSchema)']
+ * @param {function} controller - ['getAnomalies']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    "/anomalies",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.anomalyFiltersSchema),
+    AttendanceAnomalyController.getAnomalies
+);
+
+/**
+ * @description approve or reject a suspected proxy check-in
+ * @param {string} path - /api/attendance/anomalies/:id/review
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.idParamSchema)', 'validateRequest(attendanceValidation.locationReviewSchema)']
+ * @param {function} controller - ['reviewAnomaly']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method PATCH
+ */
+router.patch(
+    "/anomalies/:id/review",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.idParamSchema),
+    validateRequest(attendanceValidation.locationReviewSchema),
+    AttendanceAnomalyController.reviewAnomaly
+);
+
+/**
+ * @description lock attendance for a semester or date range so it can no longer be changed
+ * @param {string} path - /api/attendance/locks
+ * @param {function} middleware - ['AuthorizeRequest(ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.createAttendanceLockSchema)']
+ * @param {function} controller - ['lockPeriod']
+ * @returns {object} - router
+ * @access private - ['ADMIN', 'SUPER_ADMIN']
+ * @method POST
+ */
+router.post(
+    "/locks",
+    AuthorizeRequest('ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.createAttendanceLockSchema),
+    AttendanceLockController.lockPeriod
+);
+
+/**
+ * @description get attendance locks
+ * @param {string} path - /api/attendance/locks
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.attendanceLockFiltersSchema)']
+ * @param {function} controller - ['getLocks']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    "/locks",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.attendanceLockFiltersSchema),
+    AttendanceLockController.getLocks
+);
+
+/**
+ * @description unlock a locked attendance period
+ * @param {string} path - /api/attendance/locks/:id/unlock
+ * @param {function} middleware - ['AuthorizeRequest(ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.idParamSchema)']
+ * @param {function} controller - ['unlockPeriod']
+ * @returns {object} - router
+ * @access private - ['ADMIN', 'SUPER_ADMIN']
+ * @method PATCH
+ */
+router.patch(
+    "/locks/:id/unlock",
+    AuthorizeRequest('ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.idParamSchema),
+    AttendanceLockController.unlockPeriod
+);
+
+/**
+ * @description cancel one occurrence of a scheduled class and notify its students
+ * @param {string} path - /api/attendance/cancellations
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.classCancellationSchema)']
+ * @param {function} controller - ['cancelClass']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method POST
+ */
+router.post(
+    "/cancellations",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.classCancellationSchema),
+    AttendanceCancellationController.cancelClass
+);
+
+/**
+ * @description get class cancellations and their make-up classes
+ * @param {string} path - /api/attendance/cancellations
+ * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(attendanceValidation.classCancellationFiltersSchema)']
+ * @param {function} controller - ['getCancellations']
  * @returns {object} - router
  * @access private
+ * @method GET
+ */
+router.get(
+    "/cancellations",
+    AuthorizeRequest(),
+    validateRequest(attendanceValidation.classCancellationFiltersSchema),
+    AttendanceCancellationController.getCancellations
+);
+
+/**
+ * @description schedule a make-up class for a cancelled class and notify its students
+ * @param {string} path - /api/attendance/cancellations/:id/make-up
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.makeUpClassSchema)']
+ * @param {function} controller - ['scheduleMakeUpClass']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
  * @method POST
  */
 router.post(
-    "/qr-checkin",
-    validateRequest(attendanceValidation.qrCodeCheckInSchema),
-    attendanceControllers.processQRCodeCheckIn
+    "/cancellations/:id/make-up",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.makeUpClassSchema),
+    AttendanceCancellationController.scheduleMakeUpClass
+);
+
+/**
+ * @description undo a class cancellation
+ * @param {string} path - /api/attendance/cancellations/:id
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.idParamSchema)']
+ * @param {function} controller - ['restoreClass']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method DELETE
+ */
+router.delete(
+    "/cancellations/:id",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.idParamSchema),
+    AttendanceCancellationController.restoreClass
 );
 
 /**
@@ -122,6 +290,118 @@ router.get(
     attendanceControllers.getCourseAttendanceSummary
 );
 
+/**
+ * @description export the attendance register for a course as CSV or XLSX
+ * @param {string} path - /api/attendance/course/:id/register
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.courseRegisterSchema)']
+ * @param {function} controller - ['exportCourseRegister']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    "/course/:id/register",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.courseRegisterSchema),
+    AttendanceRegisterController.exportCourseRegister
+);
+
+/**
+ * @description get the exam eligibility report for a course
+ * @param {string} path - /api/attendance/eligibility/course/:id
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.eligibilitySchema)']
+ * @param {function} controller - ['getCourseEligibility']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    "/eligibility/course/:id",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.eligibilitySchema),
+    AttendanceEligibilityController.getCourseEligibility
+);
+
+/**
+ * @description export the eligible / ineligible list for a course as CSV or XLSX
+ * @param {string} path - /api/attendance/eligibility/course/:id/export
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.eligibilitySchema)']
+ * @param {function} controller - ['exportCourseEligibility']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    "/eligibility/course/:id/export",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.eligibilitySchema),
+    AttendanceEligibilityController.exportCourseEligibility
+);
+
+/**
+ * @description get the exam eligibility report for every course of a semester
+ * @param {string} path - /api/attendance/eligibility/semester/:id
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.eligibilitySchema)']
+ * @param {function} controller - ['getSemesterEligibility']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    "/eligibility/semester/:id",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.eligibilitySchema),
+    AttendanceEligibilityController.getSemesterEligibility
+);
+
+/**
+ * @description export the eligible / ineligible list for a semester as CSV or XLSX
+ * @param {string} path - /api/attendance/eligibility/semester/:id/export
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.eligibilitySchema)']
+ * @param {function} controller - ['exportSemesterEligibility']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    "/eligibility/semester/:id/export",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.eligibilitySchema),
+    AttendanceEligibilityController.exportSemesterEligibility
+);
+
+/**
+ * @description grant condonation for a student's attendance shortfall (department head or admin)
+ * @param {string} path - /api/attendance/condonations
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.condonationSchema)']
+ * @param {function} controller - ['grantCondonation']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method POST
+ */
+router.post(
+    "/condonations",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.condonationSchema),
+    AttendanceEligibilityController.grantCondonation
+);
+
+/**
+ * @description revoke a condonation (department head or admin)
+ * @param {string} path - /api/attendance/condonations/:id
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.idParamSchema)']
+ * @param {function} controller - ['revokeCondonation']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method DELETE
+ */
+router.delete(
+    "/condonations/:id",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.idParamSchema),
+    AttendanceEligibilityController.revokeCondonation
+);
+
 /**
  * @description get attendance summary for a student
  * @param {string} path - /api/attendance/student/:userId/summary
@@ -185,6 +465,39 @@ router.patch(
     attendanceControllers.updateAttendance
 );
 
+/**
+ * @description get the edit history of an attendance record
+ * @param {string} path - /api/attendance/:id/history
+ * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(attendanceValidation.idParamSchema)']
+ * @param {function} controller - ['getAttendanceHistory']
+ * @returns {object} - router
+ * @access private
+ * @method GET
+ */
+router.get(
+    "/:id/history",
+    AuthorizeRequest(),
+    validateRequest(attendanceValidation.idParamSchema),
+    attendanceControllers.getAttendanceHistory
+);
+
+/**
+ * @description approve or reject a check-in flagged outside the session geofence
+ * @param {string} path - /api/attendance/:id/location-review
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(attendanceValidation.idParamSchema)', 'validateRequest(attendanceValidation.locationReviewSchema)']
+ * @param {function} controller - ['reviewLocation']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method PATCH
+ */
+router.patch(
+    "/:id/location-review",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.idParamSchema),
+    validateRequest(attendanceValidation.locationReviewSchema),
+    AttendanceSessionController.reviewLocation
+);
+
 /**
  * @description get attendance by ID
  * @param {string} path - /api/attendance/:id
@@ -200,16 +513,41 @@ router.get(
     attendanceControllers.getAttendanceById
 );
 
-// GET /api/v1/attendance/sessions/:sessionId/stats - Get session statistics for polling
+// GET /api/v1/attendance/sessions/:sessionId/stats - Get session statistics (live screens should use /stream)
 router.get(
     "/sessions/:sessionId/stats",
-    validateRequest(attendanceValidation.idParamSchema),
+    validateRequest(attendanceValidation.sessionIdParamSchema),
     AttendanceSessionController.getSessionStats
 );
 
+// GET /api/v1/attendance/sessions/:id/stream - Server-Sent Events stream of check-ins and the live roster
+router.get(
+    "/sessions/:id/stream",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.idParamSchema),
+    AttendanceSessionController.streamSession
+);
+
+// GET /api/v1/attendance/sessions/:id/code - Get the current rotating check-in code
+router.get(
+    "/sessions/:id/code",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.idParamSchema),
+    AttendanceSessionController.getSessionCode
+);
+
+// GET /api/v1/attendance/sessions/:id/roll-call.pdf - Download a printable roll-call sheet with signature lines
+router.get(
+    "/sessions/:id/roll-call.pdf",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(attendanceValidation.idParamSchema),
+    AttendanceSessionController.downloadRollCallSheet
+);
+
 // POST /api/v1/attendance/sessions/:id/end - End attendance session
 router.post(
     "/sessions/:id/end",
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
     validateRequest(attendanceValidation.idParamSchema),
     AttendanceSessionController.endSession
 );
@@ -1,12 +1,10 @@
-import { AttendanceModel, QRCodeModel, AttendanceSessionModel } from './attendance.model';
+import { Prisma } from '@prisma/client';
+import { AttendanceModel, AttendanceSessionModel, getPeriodKey } from './attendance.model';
 import {
     IAttendance,
     IAttendanceCreate,
     IAttendanceUpdate,
     IBulkAttendanceCreate,
-    IQRCode,
-    IQRCodeCreate,
-    IQRCodeCheckIn,
     IAttendanceSession,
     IAttendanceSessionCreate,
     IAttendanceFilters,
@@ -14,18 +12,123 @@ import {
     ICourseAttendanceStats,
     IStudentAttendanceStats,
     IAttendanceDashboard,
+    IAttendanceStatusInput,
+    IAttendancePeriod,
+    IResolvedAttendancePeriod,
+    IAttendanceEditor,
+    IAttendanceChanges,
+    AttendanceStatus,
 } from './attendance.interface';
+import { AttendanceLockService } from './attendanceLock.service';
+import { AttendancePolicyService } from './attendancePolicy.service';
+import { AttendanceStreakService } from './attendanceStreak.service';
+import { AttendanceCancellationService } from './attendanceCancellation.service';
 import AppError from '../../errors/AppError';
 import { StatusCodes } from 'http-status-codes';
 import prisma from '../../config/prisma';
+import { SettingsService } from '../settings/settings.service';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { AttendanceSessionEvents } from './attendanceSession.events';
+import { addZonedDays, atZonedTime, getZonedWeekday, startOfZonedDay, zonedDaysBetween } from '../../utils/zonedTime';
 
 /**
- * Record attendance for a student
+ * Make sure the session or schedule slot a record is taken against belongs to the course, and fill in
+ * the schedule slot of a session run for one, so the period resolves to a single period key.
  */
-const recordAttendance = async (data: IAttendanceCreate): Promise<IAttendance> => {
+const resolvePeriod = async (courseId: string, period: IAttendancePeriod): Promise<IResolvedAttendancePeriod> => {
+    let classScheduleId = period.classScheduleId ?? undefined;
+
+    if (period.attendanceSessionId) {
+        const session = await prisma.attendanceSession.findUnique({
+            where: { id: period.attendanceSessionId },
+        });
+
+        if (!session || session.courseId !== courseId) {
+            throw new AppError(StatusCodes.BAD_REQUEST, 'Attendance session does not belong to this course');
+        }
+
+        if (session.classScheduleId) {
+            if (classScheduleId && classScheduleId !== session.classScheduleId) {
+                throw new AppError(StatusCodes.BAD_REQUEST, 'Attendance session was run for a different class schedule');
+            }
+            classScheduleId = session.classScheduleId;
+        }
+    }
+
+    if (classScheduleId) {
+        const schedule = await prisma.classSchedule.findUnique({
+            where: { id: classScheduleId },
+        });
+
+        if (!schedule || schedule.courseId !== courseId) {
+            throw new AppError(StatusCodes.BAD_REQUEST, 'Class schedule does not belong to this course');
+        }
+    }
+
+    return { attendanceSessionId: period.attendanceSessionId ?? undefined, classScheduleId };
+};
+
+/**
+ * Find the scheduled start of the class a check-in belongs to.
+ * Uses the given schedule slot when the record targets one, otherwise picks the latest slot of the day
+ * that started before the check-in, or the first slot for early arrivals.
+ */
+const getScheduledStartTime = async (courseId: string, checkIn: Date, classScheduleId?: string | null): Promise<Date | null> => {
+    const timeZone = await AcademicCalendarService.getCourseTimeZone(courseId);
+    const schedules = await prisma.classSchedule.findMany({
+        where: classScheduleId
+            ? { id: classScheduleId }
+            : {
+                courseId,
+                dayOfWeek: getZonedWeekday(checkIn, timeZone),
+                isActive: true,
+            },
+        orderBy: { startTime: 'asc' },
+    });
+
+    if (schedules.length === 0) {
+        return null;
+    }
+
+    const startTimes = schedules.map((schedule) => atZonedTime(checkIn, schedule.startTime, timeZone));
+
+    const started = startTimes.filter((startTime) => startTime <= checkIn);
+    return started.length > 0 ? started[started.length - 1] : startTimes[0];
+};
+
+/**
+ * Derive PRESENT vs LATE from the check-in time and the attendance.lateThreshold setting.
+ * Explicit overrides, ABSENT / EXCUSED and records without a check-in time keep the given status.
+ */
+const resolveAttendanceStatus = async (input: IAttendanceStatusInput): Promise<AttendanceStatus> => {
+    const status = input.status || 'PRESENT';
+
+    if (input.overrideStatus || status === 'ABSENT' || status === 'EXCUSED' || !input.checkIn) {
+        return status;
+    }
+
+    const checkIn = new Date(input.checkIn);
+    const startTime = input.sessionStart
+        ? new Date(input.sessionStart)
+        : await getScheduledStartTime(input.courseId, checkIn, input.classScheduleId);
+
+    if (!startTime) {
+        return status;
+    }
+
+    const lateThreshold = await SettingsService.getNumberSetting('attendance.lateThreshold');
+    const lateAfter = startTime.getTime() + lateThreshold * 60 * 1000;
+
+    return checkIn.getTime() > lateAfter ? 'LATE' : 'PRESENT';
+};
+
+/**
+ * Record attendance for a student. The date is taken as a day in the course's time zone.
+ */
+const recordAttendance = async (input: IAttendanceCreate): Promise<IAttendance> => {
     // Check if user exists
     const user = await prisma.user.findUnique({
-        where: { id: data.userId },
+        where: { id: input.userId },
     });
 
     if (!user) {
@@ -34,32 +137,107 @@ const recordAttendance = async (data: IAttendanceCreate): Promise<IAttendance> =
 
     // Check if course exists
     const course = await prisma.course.findUnique({
-        where: { id: data.courseId },
+        where: { id: input.courseId },
     });
 
     if (!course) {
         throw new AppError(StatusCodes.NOT_FOUND, 'Course not found');
     }
 
-    // Check if attendance already exists for this user, course, and date
+    const timeZone = await AcademicCalendarService.getTimeZone(course.departmentId);
+    const data = {
+        ...input,
+        ...await resolvePeriod(input.courseId, input),
+        date: startOfZonedDay(input.date, timeZone),
+    };
+
+    await AttendanceLockService.assertNotLocked(data.courseId, data.date);
+    await AttendanceCancellationService.assertNotCancelled(data.classScheduleId, data.date);
+
+    // Check if attendance already exists for this user, course, date and class period
     const existingAttendance = await AttendanceModel.findByUserCourseDate(
         data.userId,
         data.courseId,
-        data.date
+        data.date,
+        getPeriodKey(data)
     );
 
     if (existingAttendance) {
-        throw new AppError(StatusCodes.CONFLICT, 'Attendance already recorded for this date');
+        throw new AppError(StatusCodes.CONFLICT, 'Attendance already recorded for this class period');
+    }
+
+    const status = await resolveAttendanceStatus(data);
+
+    const attendance = await AttendanceModel.create({ ...data, status });
+
+    if (data.attendanceSessionId) {
+        AttendanceSessionEvents.publish(data.attendanceSessionId, { type: 'attendance-updated', attendanceId: attendance.id });
+    }
+
+    if (status === 'ABSENT') {
+        AttendanceStreakService.checkStreaks(data.courseId, [data.userId]);
     }
 
-    const attendance = await AttendanceModel.create(data);
     return attendance as IAttendance;
 };
 
 /**
- * Update attendance record
+ * Make sure the editor may still change a record taken on the given date, counting days in the course's time zone.
+ * Outside the attendance.allowRetroactive window only admins may edit, and they must give a justification.
  */
-const updateAttendance = async (id: string, data: IAttendanceUpdate): Promise<IAttendance> => {
+const assertWithinEditWindow = async (date: Date, editor: IAttendanceEditor, timeZone: string): Promise<void> => {
+    const allowRetroactive = await SettingsService.getBooleanSetting('attendance.allowRetroactive');
+    const windowDays = allowRetroactive
+        ? await SettingsService.getNumberSetting('attendance.retroactiveDays')
+        : 0;
+
+    const daysAgo = zonedDaysBetween(date, new Date(), timeZone);
+
+    if (daysAgo <= windowDays) {
+        return;
+    }
+
+    if (!['ADMIN', 'SUPER_ADMIN'].includes(editor.role)) {
+        throw new AppError(
+            StatusCodes.FORBIDDEN,
+            `Attendance older than ${windowDays} day(s) can only be edited by an admin`
+        );
+    }
+
+    if (!editor.reason) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'A justification is required to edit attendance outside the retroactive window');
+    }
+};
+
+/**
+ * Collect the before/after values of every tracked field an update changes
+ */
+const getAttendanceChanges = (existing: IAttendanceUpdate, update: IAttendanceUpdate): IAttendanceChanges => {
+    const normalize = (field: keyof IAttendanceUpdate, value: unknown) => {
+        if (value === undefined || value === null) return null;
+        return field === 'checkIn' || field === 'checkOut'
+            ? new Date(value as Date | string).toISOString()
+            : value;
+    };
+
+    const changes: IAttendanceChanges = {};
+    for (const field of ['status', 'checkIn', 'checkOut', 'notes'] as const) {
+        if (update[field] === undefined) continue;
+
+        const from = normalize(field, existing[field]);
+        const to = normalize(field, update[field]);
+        if (from !== to) {
+            changes[field] = { from, to };
+        }
+    }
+
+    return changes;
+};
+
+/**
+ * Update attendance record, keeping a revision of what changed
+ */
+const updateAttendance = async (id: string, data: IAttendanceUpdate, editor: IAttendanceEditor): Promise<IAttendance> => {
     // Check if attendance exists
     const existingAttendance = await AttendanceModel.findById(id);
 
@@ -67,10 +245,120 @@ const updateAttendance = async (id: string, data: IAttendanceUpdate): Promise<IA
         throw new AppError(StatusCodes.NOT_FOUND, 'Attendance record not found');
     }
 
-    const updatedAttendance = await AttendanceModel.update(id, data);
+    await AttendanceLockService.assertNotLocked(existingAttendance.courseId, existingAttendance.date);
+    await assertWithinEditWindow(
+        existingAttendance.date,
+        editor,
+        await AcademicCalendarService.getCourseTimeZone(existingAttendance.courseId)
+    );
+
+    const { overrideStatus, ...updateData } = data;
+
+    // Re-derive LATE only when the status or arrival time is being changed
+    if (data.status || data.checkIn) {
+        const session = existingAttendance.attendanceSessionId
+            ? await prisma.attendanceSession.findUnique({
+                where: { id: existingAttendance.attendanceSessionId },
+            })
+            : null;
+
+        updateData.status = await resolveAttendanceStatus({
+            courseId: existingAttendance.courseId,
+            status: data.status || (existingAttendance.status as AttendanceStatus),
+            checkIn: data.checkIn || existingAttendance.checkIn,
+            sessionStart: session?.startTime,
+            overrideStatus,
+        });
+    }
+
+    const changes = getAttendanceChanges(existingAttendance as IAttendanceUpdate, updateData);
+    const updatedAttendance = await AttendanceModel.update(
+        id,
+        updateData,
+        Object.keys(changes).length > 0
+            ? {
+                changedBy: editor.userId,
+                previousStatus: existingAttendance.status as AttendanceStatus,
+                changes,
+                reason: editor.reason,
+            }
+            : undefined
+    );
+
+    if (existingAttendance.attendanceSessionId) {
+        AttendanceSessionEvents.publish(existingAttendance.attendanceSessionId, { type: 'attendance-updated', attendanceId: id });
+    }
+
+    if (changes.status?.to === 'ABSENT') {
+        AttendanceStreakService.checkStreaks(existingAttendance.courseId, [existingAttendance.userId]);
+    }
+
     return updatedAttendance as IAttendance;
 };
 
+/**
+ * Save the marks of one class period of the course, with the date already normalized to the course's time zone.
+ * The period is checked against the course first. Students without a record for the period get a new one.
+ * Re-marking an existing record is an edit, so it must be inside the editor's edit window and is saved with a revision.
+ */
+const markAttendances = async (input: IBulkAttendanceCreate, editor: IAttendanceEditor, timeZone: string) => {
+    const { courseId, date, markedBy } = input;
+    const { attendanceSessionId, classScheduleId } = await resolvePeriod(courseId, input);
+
+    const existingRecords = await AttendanceModel.findPeriodRecords(
+        courseId,
+        date,
+        getPeriodKey({ attendanceSessionId, classScheduleId }),
+        input.attendances.map((attendance) => attendance.userId)
+    );
+    const existingByUserId = new Map(existingRecords.map((record) => [record.userId, record]));
+
+    if (existingRecords.length > 0) {
+        await assertWithinEditWindow(date, editor, timeZone);
+    }
+
+    const results = [];
+    for (const attendance of input.attendances) {
+        const existing = existingByUserId.get(attendance.userId);
+
+        if (!existing) {
+            results.push(await AttendanceModel.create({
+                ...attendance,
+                courseId,
+                date,
+                attendanceSessionId,
+                classScheduleId,
+                markedBy,
+            }));
+            continue;
+        }
+
+        const updateData: IAttendanceUpdate = {
+            status: attendance.status,
+            checkIn: attendance.checkIn,
+            checkOut: attendance.checkOut,
+            notes: attendance.notes,
+            markedBy,
+        };
+        const changes = getAttendanceChanges(existing as IAttendanceUpdate, updateData);
+
+        results.push(await AttendanceModel.update(
+            existing.id,
+            updateData,
+            Object.keys(changes).length > 0
+                ? {
+                    changedBy: editor.userId,
+                    previousStatus: existing.status as AttendanceStatus,
+                    changes,
+                    reason: editor.reason,
+                }
+                : undefined
+        ));
+    }
+
+    return results;
+};
+
 /**
  * Get attendance by ID
  */
@@ -84,6 +372,23 @@ const getAttendanceById = async (id: string): Promise<IAttendance | null> => {
     return attendance as IAttendance;
 };
 
+/**
+ * Get the edit history of an attendance record; students may only see their own
+ */
+const getAttendanceHistory = async (id: string, userId: string, role: string) => {
+    const attendance = await AttendanceModel.findById(id);
+
+    if (!attendance) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Attendance record not found');
+    }
+
+    if (role === 'STUDENT' && attendance.userId !== userId) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'You can only view the history of your own attendance');
+    }
+
+    return AttendanceModel.findRevisions(id);
+};
+
 /**
  * Get attendance records with filters
  */
@@ -93,19 +398,39 @@ const getAttendances = async (filters: IAttendanceFilters) => {
 };
 
 /**
- * Bulk mark attendance for multiple students
+ * Bulk mark attendance for multiple students. The date is taken as a day in the course's time zone.
  */
-const bulkMarkAttendance = async (data: IBulkAttendanceCreate) => {
+const bulkMarkAttendance = async (input: IBulkAttendanceCreate, editor: IAttendanceEditor) => {
     // Check if course exists
     const course = await prisma.course.findUnique({
-        where: { id: data.courseId },
+        where: { id: input.courseId },
     });
 
     if (!course) {
         throw new AppError(StatusCodes.NOT_FOUND, 'Course not found');
     }
 
-    const results = await AttendanceModel.bulkMark(data);
+    const timeZone = await AcademicCalendarService.getTimeZone(course.departmentId);
+    const data = {
+        ...input,
+        ...await resolvePeriod(input.courseId, input),
+        date: startOfZonedDay(input.date, timeZone),
+    };
+
+    await AttendanceLockService.assertNotLocked(data.courseId, data.date);
+    await AttendanceCancellationService.assertNotCancelled(data.classScheduleId, data.date);
+
+    const results = await markAttendances(data, editor, timeZone);
+
+    if (data.attendanceSessionId) {
+        AttendanceSessionEvents.publish(data.attendanceSessionId, { type: 'attendance-updated' });
+    }
+
+    AttendanceStreakService.checkStreaks(
+        data.courseId,
+        data.attendances.filter((attendance) => attendance.status === 'ABSENT').map((attendance) => attendance.userId)
+    );
+
     return results;
 };
 
@@ -151,40 +476,6 @@ const getStudentAttendanceSummary = async (
     return summary;
 };
 
-/**
- * Create QR code for attendance check-in
- */
-const createQRCode = async (data: IQRCodeCreate): Promise<IQRCode> => {
-    // Check if attendance session exists
-    const session = await prisma.attendanceSession.findUnique({
-        where: { id: data.attendanceSessionId },
-    });
-
-    if (!session) {
-        throw new AppError(StatusCodes.NOT_FOUND, 'Attendance session not found');
-    }
-
-    const qrCode = await QRCodeModel.create(data);
-    return qrCode;
-};
-
-/**
- * Process QR code check-in
- */
-const processQRCodeCheckIn = async (data: IQRCodeCheckIn) => {
-    // Check if user exists
-    const user = await prisma.user.findUnique({
-        where: { id: data.userId },
-    });
-
-    if (!user) {
-        throw new AppError(StatusCodes.NOT_FOUND, 'User not found');
-    }
-
-    const attendance = await QRCodeModel.processCheckIn(data);
-    return attendance;
-};
-
 /**
  * Create attendance session
  */
@@ -212,14 +503,13 @@ const createAttendanceSession = async (data: IAttendanceSessionCreate): Promise<
 };
 
 /**
- * Get attendance dashboard data
+ * Get attendance dashboard data, with days counted in the institution's time zone
  */
 const getAttendanceDashboard = async (): Promise<IAttendanceDashboard> => {
     // Get today's attendance statistics
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const timeZone = await AcademicCalendarService.getTimeZone();
+    const today = startOfZonedDay(new Date(), timeZone);
+    const tomorrow = addZonedDays(today, 1, timeZone);
 
     const [
         totalToday,
@@ -277,68 +567,52 @@ const getAttendanceDashboard = async (): Promise<IAttendanceDashboard> => {
     // Get weekly trend (last 7 days)
     const weeklyTrend = [];
     for (let i = 6; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        date.setHours(0, 0, 0, 0);
-        const nextDate = new Date(date);
-        nextDate.setDate(nextDate.getDate() + 1);
-
-        const [total, present] = await Promise.all([
-            prisma.attendance.count({
-                where: {
-                    date: {
-                        gte: date,
-                        lt: nextDate,
-                    },
-                },
-            }),
-            prisma.attendance.count({
-                where: {
-                    date: {
-                        gte: date,
-                        lt: nextDate,
-                    },
-                    status: 'PRESENT',
-                },
-            }),
-        ]);
+        const date = addZonedDays(today, -i, timeZone);
+        const nextDate = addZonedDays(date, 1, timeZone);
 
-        const attendance = total > 0 ? Math.round((present / total) * 100) : 0;
+        const attendance = Math.round(await AttendancePolicyService.getAttendancePercentage({
+            date: {
+                gte: date,
+                lt: nextDate,
+            },
+        }));
         weeklyTrend.push({
-            day: date.toLocaleDateString('en', { weekday: 'short' }),
+            day: date.toLocaleDateString('en', { weekday: 'short', timeZone }),
             attendance,
         });
     }
 
     // Get top and low performers (last 30 days)
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    const thirtyDaysAgo = addZonedDays(today, -30, timeZone);
 
+    // Percentages weigh LATE, PARTIAL and EXCUSED marks by each course's attendance policy
+    const policy = await AttendancePolicyService.getPolicySql();
     const studentStats = await prisma.$queryRaw`
         SELECT 
-            u.id as userId,
+            u.id as "userId",
             u.name,
-            COUNT(*) as totalClasses,
-            SUM(CASE WHEN a.status = 'PRESENT' THEN 1 ELSE 0 END) as presentCount
+            COUNT(*) as "totalClasses",
+            ${Prisma.raw(policy.percentage)} as "attendancePercentage"
         FROM attendances a
-        JOIN users u ON a.userId = u.id
+        JOIN users u ON a."userId" = u.id
+        ${Prisma.raw(policy.joins)}
         WHERE a.date >= ${thirtyDaysAgo}
         GROUP BY u.id, u.name
         HAVING COUNT(*) >= 5
-        ORDER BY (SUM(CASE WHEN a.status = 'PRESENT' THEN 1 ELSE 0 END) / COUNT(*)) DESC
+        ORDER BY "attendancePercentage" DESC NULLS LAST
         LIMIT 10
-    ` as { userId: string; name: string; totalClasses: number; presentCount: number }[];
+    ` as { userId: string; name: string; totalClasses: bigint; attendancePercentage: number | null }[];
 
     const topPerformers = studentStats.slice(0, 5).map(student => ({
         userId: student.userId,
         name: student.name,
-        attendance: Math.round((student.presentCount / student.totalClasses) * 100),
+        attendance: Math.round(Number(student.attendancePercentage ?? 0)),
     }));
 
     const lowPerformers = studentStats.slice(-5).reverse().map(student => ({
         userId: student.userId,
         name: student.name,
-        attendance: Math.round((student.presentCount / student.totalClasses) * 100),
+        attendance: Math.round(Number(student.attendancePercentage ?? 0)),
     }));
 
     return {
@@ -358,15 +632,17 @@ const getAttendanceDashboard = async (): Promise<IAttendanceDashboard> => {
 };
 
 export const attendanceServices = {
+    resolvePeriod,
+    resolveAttendanceStatus,
     recordAttendance,
     updateAttendance,
     getAttendanceById,
+    getAttendanceHistory,
     getAttendances,
+    markAttendances,
     bulkMarkAttendance,
     getCourseAttendanceSummary,
     getStudentAttendanceSummary,
-    createQRCode,
-    processQRCodeCheckIn,
     createAttendanceSession,
     getAttendanceDashboard,
 };
\ No newline at end of file
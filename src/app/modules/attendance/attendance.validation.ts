@@ -1,7 +1,13 @@
 import { z } from "zod";
 
 // Attendance status enum
-const attendanceStatusEnum = z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED']);
+const attendanceStatusEnum = z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED', 'PARTIAL']);
+
+// Geographic coordinates
+const latitudeSchema = z.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90');
+const longitudeSchema = z.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180');
+const hasBothCoordinates = (data: { latitude?: number; longitude?: number }) =>
+    (data.latitude === undefined) === (data.longitude === undefined);
 
 // Create attendance validation schema
 const createAttendanceSchema = z.object({
@@ -22,6 +28,9 @@ const createAttendanceSchema = z.object({
             return !isNaN(date.getTime());
         }, 'Invalid check-out time format').optional(),
         notes: z.string().optional(),
+        attendanceSessionId: z.string().min(1).optional(),
+        classScheduleId: z.string().min(1).optional(),
+        overrideStatus: z.boolean().optional(),
     }),
 });
 
@@ -38,6 +47,8 @@ const updateAttendanceSchema = z.object({
             return !isNaN(date.getTime());
         }, 'Invalid check-out time format').optional(),
         notes: z.string().optional(),
+        overrideStatus: z.boolean().optional(),
+        reason: z.string().min(5, 'Reason must be at least 5 characters').max(500, 'Reason must be less than 500 characters').optional(),
     }),
 });
 
@@ -49,11 +60,50 @@ const bulkAttendanceSchema = z.object({
             const date = new Date(val);
             return !isNaN(date.getTime());
         }, 'Invalid date format'),
+        attendanceSessionId: z.string().min(1).optional(),
+        classScheduleId: z.string().min(1).optional(),
         attendances: z.array(z.object({
             userId: z.string().min(1, 'User ID is required'),
             status: attendanceStatusEnum,
             notes: z.string().optional(),
         })).min(1, 'At least one attendance record is required'),
+        reason: z.string().min(5, 'Reason must be at least 5 characters').max(500, 'Reason must be less than 500 characters').optional(),
+    }),
+});
+
+// Offline sync validation schema: client-generated operations, applied at most once each
+const attendanceSyncSchema = z.object({
+    body: z.object({
+        lastSyncedAt: z.string().refine((val) => {
+            const date = new Date(val);
+            return !isNaN(date.getTime());
+        }, 'Invalid last synced time format').optional(),
+        operations: z.array(z.object({
+            clientId: z.string().min(1, 'Client ID is required').max(100, 'Client ID must be less than 100 characters'),
+            deviceTimestamp: z.string().refine((val) => {
+                const date = new Date(val);
+                return !isNaN(date.getTime());
+            }, 'Invalid device timestamp format'),
+            userId: z.string().min(1, 'User ID is required'),
+            courseId: z.string().min(1, 'Course ID is required'),
+            date: z.string().refine((val) => {
+                const date = new Date(val);
+                return !isNaN(date.getTime());
+            }, 'Invalid date format'),
+            status: attendanceStatusEnum,
+            checkIn: z.string().refine((val) => {
+                const date = new Date(val);
+                return !isNaN(date.getTime());
+            }, 'Invalid check-in time format').optional(),
+            checkOut: z.string().refine((val) => {
+                const date = new Date(val);
+                return !isNaN(date.getTime());
+            }, 'Invalid check-out time format').optional(),
+            notes: z.string().optional(),
+            attendanceSessionId: z.string().min(1).optional(),
+            classScheduleId: z.string().min(1).optional(),
+            overrideStatus: z.boolean().optional(),
+        })).min(1, 'At least one operation is required').max(500, 'At most 500 operations can be synced at once'),
     }),
 });
 
@@ -72,9 +122,133 @@ const createAttendanceSessionSchema = z.object({
         }, 'Invalid end time format').optional(),
         location: z.string().optional(),
         notes: z.string().optional(),
+        classScheduleId: z.string().min(1).optional(),
+        makeUpClassId: z.string().min(1).optional(),
+        latitude: latitudeSchema.optional(),
+        longitude: longitudeSchema.optional(),
+        geofenceRadius: z.number().int().min(10, 'Radius must be at least 10 meters').max(5000, 'Radius must be at most 5000 meters').optional(),
+    }).refine(hasBothCoordinates, {
+        message: 'Latitude and longitude must be provided together',
+        path: ['longitude'],
+    }),
+});
+
+// Student session check-in validation schema
+const sessionCheckInSchema = z.object({
+    body: z.object({
+        sessionId: z.string().min(1, 'Session ID is required'),
+        code: z.string().regex(/^\d{6}$/, 'Check-in code must be 6 digits'),
+        latitude: latitudeSchema.optional(),
+        longitude: longitudeSchema.optional(),
+        accuracy: z.number().min(0, 'Accuracy cannot be negative').optional(),
+        deviceFingerprint: z.string().min(1).max(255, 'Device fingerprint must be less than 255 characters').optional(),
+    }).refine(hasBothCoordinates, {
+        message: 'Latitude and longitude must be provided together',
+        path: ['longitude'],
+    }),
+});
+
+// Session check-out validation schema; teachers name the student and may give the time they left
+const sessionCheckOutSchema = z.object({
+    body: z.object({
+        sessionId: z.string().min(1, 'Session ID is required'),
+        userId: z.string().min(1).optional(),
+        checkOut: z.string().refine((val) => {
+            const date = new Date(val);
+            return !isNaN(date.getTime());
+        }, 'Invalid check-out time format').optional(),
+    }),
+});
+
+// Teacher review of a flagged check-in: outside the geofence or a suspected proxy
+const locationReviewSchema = z.object({
+    body: z.object({
+        approved: z.boolean(),
+    }),
+});
+
+// Proxy check-in review queue filters validation schema
+const anomalyFiltersSchema = z.object({
+    query: z.object({
+        status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+        type: z.enum(['SHARED_DEVICE', 'MULTIPLE_DEVICES']).optional(),
+        courseId: z.string().optional(),
+        attendanceSessionId: z.string().optional(),
+    }),
+});
+
+// Attendance lock validation schema: a semester, or an explicit date range
+const createAttendanceLockSchema = z.object({
+    body: z.object({
+        name: z.string().min(1).max(100, 'Name must be less than 100 characters').optional(),
+        semesterId: z.string().min(1).optional(),
+        departmentId: z.string().min(1).optional(),
+        startDate: z.string().refine((val) => {
+            const date = new Date(val);
+            return !isNaN(date.getTime());
+        }, 'Invalid start date format').optional(),
+        endDate: z.string().refine((val) => {
+            const date = new Date(val);
+            return !isNaN(date.getTime());
+        }, 'Invalid end date format').optional(),
+        reason: z.string().max(500, 'Reason must be less than 500 characters').optional(),
+    }).refine((data) => data.semesterId || (data.startDate && data.endDate), {
+        message: 'Provide a semester or both a start and end date',
+        path: ['semesterId'],
+    }),
+});
+
+// Attendance lock filters validation schema
+const attendanceLockFiltersSchema = z.object({
+    query: z.object({
+        isActive: z.string().regex(/^(true|false)$/, 'isActive must be true or false').optional(),
+        semesterId: z.string().optional(),
+        departmentId: z.string().optional(),
+    }),
+});
+
+const dateSchema = (message: string) => z.string().refine((val) => {
+    const date = new Date(val);
+    return !isNaN(date.getTime());
+}, message);
+
+const timeSchema = (message: string) => z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, message);
+
+// Cancellation of one occurrence of a class schedule slot
+const classCancellationSchema = z.object({
+    body: z.object({
+        classScheduleId: z.string().min(1, 'Class schedule ID is required'),
+        date: dateSchema('Invalid date format'),
+        reason: z.string().min(1, 'Reason is required').max(500, 'Reason must be less than 500 characters'),
+    }),
+});
+
+// Class cancellation filters validation schema
+const classCancellationFiltersSchema = z.object({
+    query: z.object({
+        courseId: z.string().optional(),
+        classScheduleId: z.string().optional(),
+        startDate: dateSchema('Invalid start date format').optional(),
+        endDate: dateSchema('Invalid end date format').optional(),
     }),
 });
 
+// Make-up class for a cancelled occurrence
+const makeUpClassSchema = z.object({
+    params: z.object({
+        id: z.string().min(1, 'ID is required'),
+    }),
+    body: z.object({
+        date: dateSchema('Invalid date format'),
+        startTime: timeSchema('Invalid start time format (HH:MM)'),
+        endTime: timeSchema('Invalid end time format (HH:MM)'),
+        room: z.string().max(50, 'Room must be less than 50 characters').optional(),
+        notes: z.string().max(500, 'Notes must be less than 500 characters').optional(),
+    }).refine((data) => data.endTime.padStart(5, '0') > data.startTime.padStart(5, '0'), {
+        message: 'End time must be after start time',
+        path: ['endTime'],
+    }),
+});
 
 // ID parameter validation schema
 const idParamSchema = z.object({
@@ -83,6 +257,13 @@ const idParamSchema = z.object({
     }),
 });
 
+// Session ID parameter validation schema
+const sessionIdParamSchema = z.object({
+    params: z.object({
+        sessionId: z.string().min(1, 'Session ID is required'),
+    }),
+});
+
 // Attendance filters validation schema
 const attendanceFiltersSchema = z.object({
     query: z.object({
@@ -100,6 +281,7 @@ const attendanceFiltersSchema = z.object({
         batchId: z.string().optional(),
         departmentId: z.string().optional(),
         reportType: z.string().optional(),
+        locationFlagged: z.string().regex(/^(true|false)$/, 'locationFlagged must be true or false').optional(),
         page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
         limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
         sortBy: z.string().optional(),
@@ -108,6 +290,44 @@ const attendanceFiltersSchema = z.object({
     }),
 });
 
+// Course register export: optional date range and file format
+const courseRegisterSchema = z.object({
+    params: z.object({
+        id: z.string().min(1, 'Course ID is required'),
+    }),
+    query: z.object({
+        startDate: z.string().refine((val) => {
+            const date = new Date(val);
+            return !isNaN(date.getTime());
+        }, 'Invalid start date format').optional(),
+        endDate: z.string().refine((val) => {
+            const date = new Date(val);
+            return !isNaN(date.getTime());
+        }, 'Invalid end date format').optional(),
+        format: z.enum(['csv', 'xlsx']).optional(),
+    }),
+});
+
+// Exam eligibility report filters and export format
+const eligibilitySchema = z.object({
+    params: z.object({
+        id: z.string().min(1, 'ID is required'),
+    }),
+    query: z.object({
+        status: z.enum(['ELIGIBLE', 'CONDONED', 'INELIGIBLE']).optional(),
+        format: z.enum(['csv', 'xlsx']).optional(),
+    }),
+});
+
+// Condonation of a student's attendance shortfall in a course
+const condonationSchema = z.object({
+    body: z.object({
+        courseId: z.string().min(1, 'Course ID is required'),
+        userId: z.string().min(1, 'Student ID is required'),
+        reason: z.string().min(1, 'Reason is required').max(500, 'Reason must be less than 500 characters'),
+    }),
+});
+
 // Session filters validation schema
 const sessionFiltersSchema = z.object({
     query: z.object({
@@ -123,8 +343,22 @@ export const attendanceValidation = {
     createAttendanceSchema,
     updateAttendanceSchema,
     bulkAttendanceSchema,
+    attendanceSyncSchema,
     createAttendanceSessionSchema,
+    sessionCheckInSchema,
+    sessionCheckOutSchema,
+    locationReviewSchema,
+    anomalyFiltersSchema,
+    createAttendanceLockSchema,
+    attendanceLockFiltersSchema,
+    classCancellationSchema,
+    classCancellationFiltersSchema,
+    makeUpClassSchema,
     idParamSchema,
+    sessionIdParamSchema,
     attendanceFiltersSchema,
+    courseRegisterSchema,
+    eligibilitySchema,
+    condonationSchema,
     sessionFiltersSchema,
 };
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { AttendanceAnomalyService } from './attendanceAnomaly.service';
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import { StatusCodes } from 'http-status-codes';
+
+// Get the review queue of suspected proxy check-ins
+const getAnomalies = catchAsync(async (req: Request, res: Response) => {
+    const anomalies = await AttendanceAnomalyService.getAnomalies(req.query, req.user.id, req.user.role);
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Attendance anomalies retrieved successfully',
+        data: anomalies,
+    });
+});
+
+// Approve or reject a suspected proxy check-in
+const reviewAnomaly = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const anomaly = await AttendanceAnomalyService.reviewAnomaly({
+        anomalyId: id,
+        approved: req.body.approved,
+        reviewerId: req.user.id,
+        role: req.user.role,
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: req.body.approved ? 'Check-in approved' : 'Check-in rejected and marked absent',
+        data: anomaly,
+    });
+});
+
+export const AttendanceAnomalyController = {
+    getAnomalies,
+    reviewAnomaly,
+};
@@ -0,0 +1,232 @@
+import { Prisma } from '@prisma/client';
+import { AttendanceModel } from './attendance.model';
+import { AttendanceSessionEvents } from './attendanceSession.events';
+import { AttendanceLockService } from './attendanceLock.service';
+import { AttendanceStreakService } from './attendanceStreak.service';
+import {
+    AnomalyType,
+    IAttendanceAnomalyFilters,
+    IAttendanceAnomalyReview,
+} from './attendance.interface';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import { SettingsService } from '../settings/settings.service';
+
+// How far back a student's check-in devices are compared
+const DEVICE_LOOKBACK_DAYS = 14;
+
+const isAdmin = (role: string) => ['ADMIN', 'SUPER_ADMIN'].includes(role);
+
+/**
+ * Flag a self check-in that looks like proxy attendance: several students on one device in the session,
+ * or one student on more devices than allowed. Returns whether the given record is now flagged.
+ */
+const detectProxyCheckIn = async (attendance: {
+    id: string;
+    userId: string;
+    attendanceSessionId?: string | null;
+    deviceFingerprint?: string | null;
+}): Promise<boolean> => {
+    if (!attendance.deviceFingerprint || !attendance.attendanceSessionId) {
+        return false;
+    }
+
+    const flags: { attendanceId: string; type: AnomalyType; details: string }[] = [];
+
+    // Everyone who checked in to this session from the same device
+    const maxStudentsPerDevice = await SettingsService.getNumberSetting('attendance.maxStudentsPerDevice');
+    const sameDevice = await prisma.attendance.findMany({
+        where: {
+            attendanceSessionId: attendance.attendanceSessionId,
+            deviceFingerprint: attendance.deviceFingerprint,
+        },
+        select: { id: true, userId: true },
+    });
+
+    const studentCount = new Set(sameDevice.map((record) => record.userId)).size;
+    if (studentCount > maxStudentsPerDevice) {
+        for (const record of sameDevice) {
+            flags.push({
+                attendanceId: record.id,
+                type: 'SHARED_DEVICE',
+                details: `${studentCount} students checked in to this session from the same device`,
+            });
+        }
+    }
+
+    // Devices the student has checked in from recently
+    const maxDevicesPerStudent = await SettingsService.getNumberSetting('attendance.maxDevicesPerStudent');
+    const since = new Date();
+    since.setDate(since.getDate() - DEVICE_LOOKBACK_DAYS);
+
+    const devices = await prisma.attendance.findMany({
+        where: {
+            userId: attendance.userId,
+            deviceFingerprint: { not: null },
+            checkIn: { gte: since },
+        },
+        distinct: ['deviceFingerprint'],
+        select: { deviceFingerprint: true },
+    });
+
+    if (devices.length > maxDevicesPerStudent) {
+        flags.push({
+            attendanceId: attendance.id,
+            type: 'MULTIPLE_DEVICES',
+            details: `Student checked in from ${devices.length} devices in the last ${DEVICE_LOOKBACK_DAYS} days`,
+        });
+    }
+
+    if (flags.length === 0) {
+        return false;
+    }
+
+    // Records already approved for the same pattern stay approved
+    await prisma.attendanceAnomaly.createMany({ data: flags, skipDuplicates: true });
+    await prisma.attendance.updateMany({
+        where: {
+            id: { in: flags.map((flag) => flag.attendanceId) },
+            anomalies: { some: { status: 'PENDING' } },
+        },
+        data: { proxyFlagged: true },
+    });
+
+    AttendanceSessionEvents.publish(attendance.attendanceSessionId, { type: 'attendance-updated' });
+
+    const flagged = await prisma.attendance.findUnique({
+        where: { id: attendance.id },
+        select: { proxyFlagged: true },
+    });
+
+    return flagged?.proxyFlagged ?? false;
+};
+
+/**
+ * Review queue of suspected proxy check-ins; teachers only see their own courses and sessions
+ */
+const getAnomalies = async (filters: IAttendanceAnomalyFilters, userId: string, role: string) => {
+    const attendance: Prisma.AttendanceWhereInput = {};
+    if (filters.courseId) attendance.courseId = filters.courseId;
+    if (filters.attendanceSessionId) attendance.attendanceSessionId = filters.attendanceSessionId;
+    if (!isAdmin(role)) {
+        attendance.OR = [
+            { course: { teacherId: userId } },
+            { attendanceSession: { teacherId: userId } },
+        ];
+    }
+
+    return prisma.attendanceAnomaly.findMany({
+        where: {
+            status: filters.status || 'PENDING',
+            type: filters.type,
+            attendance,
+        },
+        include: {
+            attendance: {
+                include: {
+                    user: { select: { id: true, name: true, email: true } },
+                    course: { select: { id: true, title: true, code: true } },
+                },
+            },
+            reviewer: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+    });
+};
+
+/**
+ * Approve or reject a suspected proxy check-in.
+ * Approval counts the record again once nothing else is pending on it; rejection marks the student ABSENT.
+ */
+const reviewAnomaly = async (payload: IAttendanceAnomalyReview) => {
+    const anomaly = await prisma.attendanceAnomaly.findUnique({
+        where: { id: payload.anomalyId },
+        include: {
+            attendance: {
+                include: {
+                    course: { select: { teacherId: true } },
+                    attendanceSession: { select: { teacherId: true } },
+                },
+            },
+        },
+    });
+    if (!anomaly) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Attendance anomaly not found');
+    }
+
+    if (anomaly.status !== 'PENDING') {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Attendance anomaly has already been reviewed');
+    }
+
+    const { attendance } = anomaly;
+    const canReview = isAdmin(payload.role)
+        || attendance.course.teacherId === payload.reviewerId
+        || attendance.attendanceSession?.teacherId === payload.reviewerId;
+    if (!canReview) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the course teacher or an admin can review this check-in');
+    }
+
+    await AttendanceLockService.assertNotLocked(attendance.courseId, attendance.date);
+
+    const review = {
+        reviewedBy: payload.reviewerId,
+        reviewedAt: new Date(),
+    };
+
+    if (payload.approved) {
+        await prisma.attendanceAnomaly.update({
+            where: { id: anomaly.id },
+            data: { ...review, status: 'APPROVED' },
+        });
+
+        const stillPending = await prisma.attendanceAnomaly.count({
+            where: { attendanceId: attendance.id, status: 'PENDING' },
+        });
+        if (stillPending === 0) {
+            await prisma.attendance.update({
+                where: { id: attendance.id },
+                data: { proxyFlagged: false },
+            });
+        }
+    } else {
+        // Rejecting one pattern settles every pending flag on the record
+        await prisma.attendanceAnomaly.updateMany({
+            where: { attendanceId: attendance.id, status: 'PENDING' },
+            data: { ...review, status: 'REJECTED' },
+        });
+
+        await AttendanceModel.update(
+            attendance.id,
+            {
+                status: 'ABSENT',
+                notes: `Check-in rejected as proxy attendance: ${anomaly.details}`,
+                markedBy: payload.reviewerId,
+                proxyFlagged: false,
+            },
+            {
+                changedBy: payload.reviewerId,
+                previousStatus: attendance.status,
+                changes: { status: { from: attendance.status, to: 'ABSENT' } },
+                reason: 'Proxy check-in rejected',
+            }
+        );
+
+        AttendanceStreakService.checkStreaks(attendance.courseId, [attendance.userId]);
+    }
+
+    if (attendance.attendanceSessionId) {
+        AttendanceSessionEvents.publish(attendance.attendanceSessionId, { type: 'attendance-updated', attendanceId: attendance.id });
+    }
+
+    return prisma.attendanceAnomaly.findUnique({
+        where: { id: anomaly.id },
+        include: { attendance: true },
+    });
+};
+
+export const AttendanceAnomalyService = {
+    detectProxyCheckIn,
+    getAnomalies,
+    reviewAnomaly,
+};
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { AttendanceCancellationService } from './attendanceCancellation.service';
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import { StatusCodes } from 'http-status-codes';
+
+// Cancel one occurrence of a scheduled class
+const cancelClass = catchAsync(async (req: Request, res: Response) => {
+    const cancellation = await AttendanceCancellationService.cancelClass({
+        ...req.body,
+        cancelledBy: req.user.id,
+        role: req.user.role,
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: 'Class cancelled successfully',
+        data: cancellation,
+    });
+});
+
+// Undo a class cancellation
+const restoreClass = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const cancellation = await AttendanceCancellationService.restoreClass(id, req.user.id, req.user.role);
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Class reinstated successfully',
+        data: cancellation,
+    });
+});
+
+// Schedule a make-up class for a cancelled class
+const scheduleMakeUpClass = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const makeUpClass = await AttendanceCancellationService.scheduleMakeUpClass({
+        ...req.body,
+        cancellationId: id,
+        createdBy: req.user.id,
+        role: req.user.role,
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: 'Make-up class scheduled successfully',
+        data: makeUpClass,
+    });
+});
+
+// Get class cancellations
+const getCancellations = catchAsync(async (req: Request, res: Response) => {
+    const cancellations = await AttendanceCancellationService.getCancellations(req.query);
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Class cancellations retrieved successfully',
+        data: cancellations,
+    });
+});
+
+export const AttendanceCancellationController = {
+    cancelClass,
+    restoreClass,
+    scheduleMakeUpClass,
+    getCancellations,
+};
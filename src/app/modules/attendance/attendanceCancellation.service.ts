@@ -0,0 +1,281 @@
+import { Prisma } from '@prisma/client';
+import {
+    IClassCancellationCreate,
+    IClassCancellationFilters,
+    IMakeUpClassCreate,
+} from './attendance.interface';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import { AttendanceLockService } from './attendanceLock.service';
+import { notificationServices } from '../notification/notification.service';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { endOfZonedDay, formatZonedDate, getZonedWeekday, startOfZonedDay } from '../../utils/zonedTime';
+
+const isAdmin = (role: string) => ['ADMIN', 'SUPER_ADMIN'].includes(role);
+
+// Cancellations and make-up classes are stored against midnight of their day in the course's time zone
+const SCHEDULE_INCLUDE = {
+    course: { select: { id: true, code: true, title: true, teacherId: true, departmentId: true } },
+} as const;
+
+type ScheduleWithCourse = Prisma.ClassScheduleGetPayload<{ include: typeof SCHEDULE_INCLUDE }>;
+
+const assertCanManage = (schedule: ScheduleWithCourse, userId: string, role: string) => {
+    if (!isAdmin(role) && schedule.teacherId !== userId && schedule.course?.teacherId !== userId) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the class teacher or an admin can cancel or reschedule this class');
+    }
+};
+
+// Tell every student enrolled in the course about a change to its classes
+const notifyStudents = async (courseId: string, title: string, message: string) => {
+    const enrollments = await prisma.courseEnrollment.findMany({
+        where: { courseId },
+        select: { studentId: true },
+    });
+
+    if (enrollments.length === 0) {
+        return;
+    }
+
+    await notificationServices.sendBulkNotifications({
+        recipientIds: enrollments.map((enrollment) => enrollment.studentId),
+        title,
+        message,
+    });
+};
+
+/**
+ * Cancel one occurrence of a class schedule slot. Only an occurrence without attendance can be
+ * cancelled, and a cancelled one accepts none, so it never counts towards attendance percentages.
+ */
+const cancelClass = async (payload: IClassCancellationCreate) => {
+    const schedule = await prisma.classSchedule.findUnique({
+        where: { id: payload.classScheduleId },
+        include: SCHEDULE_INCLUDE,
+    });
+    if (!schedule?.courseId || !schedule.course) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Class schedule not found');
+    }
+
+    assertCanManage(schedule, payload.cancelledBy, payload.role);
+
+    const timeZone = await AcademicCalendarService.getTimeZone(schedule.course.departmentId);
+    const date = startOfZonedDay(payload.date, timeZone);
+    if (getZonedWeekday(date, timeZone) !== schedule.dayOfWeek) {
+        throw new AppError(StatusCodes.BAD_REQUEST, `The class is not scheduled on ${formatZonedDate(date, timeZone)}`);
+    }
+
+    await AttendanceLockService.assertNotLocked(schedule.courseId, date);
+
+    const endOfDay = endOfZonedDay(date, timeZone);
+    const occurrence: Prisma.AttendanceSessionWhereInput = {
+        classScheduleId: schedule.id,
+        date: { gte: date, lte: endOfDay },
+    };
+
+    const recorded = await prisma.attendance.count({
+        where: {
+            OR: [
+                { classScheduleId: schedule.id, date: { gte: date, lte: endOfDay } },
+                { attendanceSession: occurrence },
+            ],
+        },
+    });
+    if (recorded > 0) {
+        throw new AppError(
+            StatusCodes.CONFLICT,
+            'Attendance has already been taken for this class; correct those records instead of cancelling it'
+        );
+    }
+
+    let cancellation;
+    try {
+        cancellation = await prisma.classCancellation.create({
+            data: {
+                classScheduleId: schedule.id,
+                date,
+                reason: payload.reason,
+                cancelledBy: payload.cancelledBy,
+            },
+        });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            throw new AppError(StatusCodes.CONFLICT, 'This class is already cancelled');
+        }
+        throw error;
+    }
+
+    // A session already opened for the class has no attendance, so it is simply dropped
+    await prisma.attendanceSession.deleteMany({
+        where: { ...occurrence, attendances: { none: {} } },
+    });
+
+    await notifyStudents(
+        schedule.courseId,
+        `Class cancelled: ${schedule.course.code}`,
+        `${schedule.course.code} - ${schedule.course.title} on ${formatZonedDate(date, timeZone)} at ${schedule.startTime} is cancelled. `
+        + `Reason: ${payload.reason}`
+    );
+
+    return cancellation;
+};
+
+// Undo a cancellation, unless a make-up class for it has already been held
+const restoreClass = async (id: string, userId: string, role: string) => {
+    const cancellation = await prisma.classCancellation.findUnique({
+        where: { id },
+        include: {
+            classSchedule: { include: SCHEDULE_INCLUDE },
+            makeUpClasses: { include: { _count: { select: { sessions: true } } } },
+        },
+    });
+    if (!cancellation) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Class cancellation not found');
+    }
+
+    const { classSchedule: schedule } = cancellation;
+    assertCanManage(schedule, userId, role);
+
+    if (cancellation.makeUpClasses.some((makeUpClass) => makeUpClass._count.sessions > 0)) {
+        throw new AppError(StatusCodes.CONFLICT, 'A make-up class has already been held for this cancellation');
+    }
+
+    await prisma.classCancellation.delete({ where: { id } });
+
+    if (schedule.courseId && schedule.course) {
+        const timeZone = await AcademicCalendarService.getTimeZone(schedule.course.departmentId);
+        await notifyStudents(
+            schedule.courseId,
+            `Class reinstated: ${schedule.course.code}`,
+            `${schedule.course.code} - ${schedule.course.title} on ${formatZonedDate(cancellation.date, timeZone)} at ${schedule.startTime} `
+            + 'will take place as scheduled.'
+        );
+    }
+
+    return cancellation;
+};
+
+// Schedule a make-up class for a cancelled occurrence
+const scheduleMakeUpClass = async (payload: IMakeUpClassCreate) => {
+    const cancellation = await prisma.classCancellation.findUnique({
+        where: { id: payload.cancellationId },
+        include: { classSchedule: { include: SCHEDULE_INCLUDE } },
+    });
+    if (!cancellation) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Class cancellation not found');
+    }
+
+    const { classSchedule: schedule } = cancellation;
+    assertCanManage(schedule, payload.createdBy, payload.role);
+
+    if (!schedule.courseId || !schedule.course) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'The cancelled class is no longer linked to a course');
+    }
+
+    const timeZone = await AcademicCalendarService.getTimeZone(schedule.course.departmentId);
+    const date = startOfZonedDay(payload.date, timeZone);
+    if (date < startOfZonedDay(new Date(), timeZone)) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'A make-up class cannot be scheduled in the past');
+    }
+
+    await AttendanceLockService.assertNotLocked(schedule.courseId, date);
+
+    const makeUpClass = await prisma.makeUpClass.create({
+        data: {
+            cancellationId: cancellation.id,
+            date,
+            startTime: payload.startTime,
+            endTime: payload.endTime,
+            room: payload.room,
+            notes: payload.notes,
+            createdBy: payload.createdBy,
+        },
+    });
+
+    const room = payload.room || schedule.room;
+    await notifyStudents(
+        schedule.courseId,
+        `Make-up class: ${schedule.course.code}`,
+        `${schedule.course.code} - ${schedule.course.title}, cancelled on ${formatZonedDate(cancellation.date, timeZone)}, `
+        + `will be made up on ${formatZonedDate(date, timeZone)} from ${payload.startTime} to ${payload.endTime}${room ? ` in ${room}` : ''}.`
+    );
+
+    return makeUpClass;
+};
+
+// Get class cancellations with their make-up classes
+const getCancellations = async (filters: IClassCancellationFilters) => {
+    const where: Prisma.ClassCancellationWhereInput = {};
+    const timeZone = filters.courseId
+        ? await AcademicCalendarService.getCourseTimeZone(filters.courseId)
+        : await AcademicCalendarService.getTimeZone();
+
+    if (filters.classScheduleId) where.classScheduleId = filters.classScheduleId;
+    if (filters.courseId) where.classSchedule = { courseId: filters.courseId };
+    if (filters.startDate || filters.endDate) {
+        where.date = {};
+        if (filters.startDate) where.date.gte = startOfZonedDay(filters.startDate, timeZone);
+        if (filters.endDate) where.date.lte = endOfZonedDay(filters.endDate, timeZone);
+    }
+
+    return prisma.classCancellation.findMany({
+        where,
+        include: {
+            classSchedule: {
+                select: {
+                    id: true,
+                    dayOfWeek: true,
+                    startTime: true,
+                    endTime: true,
+                    room: true,
+                    course: { select: { id: true, code: true, title: true } },
+                },
+            },
+            canceller: { select: { id: true, name: true, email: true } },
+            makeUpClasses: { orderBy: { date: 'asc' } },
+        },
+        orderBy: { date: 'desc' },
+    });
+};
+
+// IDs of the class schedule slots cancelled on the day starting at the given midnight
+const getCancelledScheduleIds = async (day: Date): Promise<Set<string>> => {
+    const cancellations = await prisma.classCancellation.findMany({
+        where: { date: day },
+        select: { classScheduleId: true },
+    });
+
+    return new Set(cancellations.map((cancellation) => cancellation.classScheduleId));
+};
+
+// Refuse attendance for a cancelled occurrence of a class schedule slot
+const assertNotCancelled = async (classScheduleId: string | null | undefined, date: Date | string): Promise<void> => {
+    if (!classScheduleId) {
+        return;
+    }
+
+    const schedule = await prisma.classSchedule.findUnique({
+        where: { id: classScheduleId },
+        select: { course: { select: { departmentId: true } } },
+    });
+    const timeZone = await AcademicCalendarService.getTimeZone(schedule?.course?.departmentId);
+
+    const day = startOfZonedDay(date, timeZone);
+    const cancellation = await prisma.classCancellation.findUnique({
+        where: { classScheduleId_date: { classScheduleId, date: day } },
+    });
+
+    if (cancellation) {
+        throw new AppError(StatusCodes.CONFLICT, `This class was cancelled on ${formatZonedDate(day, timeZone)}: ${cancellation.reason}`);
+    }
+};
+
+export const AttendanceCancellationService = {
+    cancelClass,
+    restoreClass,
+    scheduleMakeUpClass,
+    getCancellations,
+    getCancelledScheduleIds,
+    assertNotCancelled,
+};
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { AttendanceEligibilityService } from './attendanceEligibility.service';
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import { StatusCodes } from 'http-status-codes';
+
+// Get the exam eligibility report for a course
+const getCourseEligibility = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const report = await AttendanceEligibilityService.getCourseEligibility(id, req.query, req.user.id, req.user.role);
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Course eligibility retrieved successfully',
+        data: report,
+    });
+});
+
+// Get the exam eligibility report for every course of a semester
+const getSemesterEligibility = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const report = await AttendanceEligibilityService.getSemesterEligibility(id, req.query, req.user.id, req.user.role);
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Semester eligibility retrieved successfully',
+        data: report,
+    });
+});
+
+// Download the eligible / ineligible list for a course
+const exportCourseEligibility = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const file = await AttendanceEligibilityService.exportCourseEligibility(id, req.query, req.user.id, req.user.role);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.buffer);
+});
+
+// Download the eligible / ineligible list for a semester
+const exportSemesterEligibility = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const file = await AttendanceEligibilityService.exportSemesterEligibility(id, req.query, req.user.id, req.user.role);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.buffer);
+});
+
+// Condone a student's attendance shortfall in a course
+const grantCondonation = catchAsync(async (req: Request, res: Response) => {
+    const condonation = await AttendanceEligibilityService.grantCondonation({
+        ...req.body,
+        grantedBy: req.user.id,
+        role: req.user.role,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: 'Condonation granted successfully',
+        data: condonation,
+    });
+});
+
+// Withdraw a condonation
+const revokeCondonation = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const condonation = await AttendanceEligibilityService.revokeCondonation(id, {
+        userId: req.user.id,
+        role: req.user.role,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Condonation revoked successfully',
+        data: condonation,
+    });
+});
+
+export const AttendanceEligibilityController = {
+    getCourseEligibility,
+    getSemesterEligibility,
+    exportCourseEligibility,
+    exportSemesterEligibility,
+    grantCondonation,
+    revokeCondonation,
+};
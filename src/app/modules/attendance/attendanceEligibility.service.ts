@@ -0,0 +1,399 @@
+import { Prisma } from '@prisma/client';
+import {
+    EligibilityStatus,
+    IAttendanceEligibility,
+    ICondonationCreate,
+    ICourseEligibility,
+    IEligibilityFilters,
+    ISemesterEligibility,
+    IStudentCourseEligibility,
+} from './attendance.interface';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import exportTable, { ExportCell } from '../../utils/exportTable';
+import { AttendancePolicyService } from './attendancePolicy.service';
+import { SettingsService } from '../settings/settings.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.interface';
+import { notificationServices } from '../notification/notification.service';
+
+const isAdmin = (role: string) => ['ADMIN', 'SUPER_ADMIN'].includes(role);
+
+const STATUS_LABELS: Record<EligibilityStatus, string> = {
+    ELIGIBLE: 'Eligible',
+    CONDONED: 'Eligible (condoned)',
+    INELIGIBLE: 'Not eligible',
+};
+
+const COURSE_SELECT = {
+    id: true,
+    code: true,
+    title: true,
+    teacherId: true,
+    semesterInfo: { select: { startDate: true, endDate: true } },
+    department: { select: { head: { select: { userId: true } } } },
+} as const;
+
+type EligibilityCourse = {
+    id: string;
+    code: string;
+    title: string;
+    teacherId: string | null;
+    semesterInfo: { startDate: Date; endDate: Date } | null;
+    department: { head: { userId: string } | null } | null;
+};
+
+const isDepartmentHead = (course: EligibilityCourse, userId: string) =>
+    course.department?.head?.userId === userId;
+
+// Classes still to attend for the percentage to reach the threshold, had they been attended
+const getSessionsShort = (attended: number, counted: number, threshold: number) =>
+    Math.max(0, Math.ceil((threshold / 100) * counted - attended - 1e-9));
+
+/**
+ * Work out each enrolled student's standing for a course, or just one student's. Only classes
+ * within the course's semester count, and percentages follow the course's attendance policy.
+ */
+const evaluateCourse = async (
+    course: EligibilityCourse,
+    threshold: number,
+    userId?: string
+): Promise<ICourseEligibility> => {
+    const where: Prisma.AttendanceWhereInput = userId ? { userId } : {};
+    if (course.semesterInfo) {
+        where.date = { gte: course.semesterInfo.startDate, lte: course.semesterInfo.endDate };
+    }
+
+    const [enrollments, totals, condonations] = await Promise.all([
+        prisma.courseEnrollment.findMany({
+            where: { courseId: course.id, ...(userId && { studentId: userId }) },
+            include: {
+                student: {
+                    select: { id: true, name: true, studentProfile: { select: { studentId: true } } },
+                },
+            },
+        }),
+        AttendancePolicyService.getStudentTotals(course.id, where),
+        prisma.attendanceCondonation.findMany({
+            where: { courseId: course.id, ...(userId && { userId }) },
+            select: { id: true, userId: true, reason: true, grantedBy: true, createdAt: true },
+        }),
+    ]);
+
+    const condonationByUser = new Map(condonations.map(({ userId, ...condonation }) => [userId, condonation]));
+
+    const students: IAttendanceEligibility[] = enrollments.map(({ student }) => {
+        const { attended, counted } = totals.get(student.id) ?? { attended: 0, counted: 0 };
+        // Nothing has been missed while no class counts yet
+        const percentage = counted > 0 ? (attended / counted) * 100 : 100;
+        const condonation = condonationByUser.get(student.id) ?? null;
+
+        let status: EligibilityStatus = 'ELIGIBLE';
+        if (percentage < threshold) {
+            status = condonation ? 'CONDONED' : 'INELIGIBLE';
+        }
+
+        return {
+            userId: student.id,
+            studentId: student.studentProfile?.studentId ?? null,
+            name: student.name,
+            attended,
+            counted,
+            percentage: Math.round(percentage * 100) / 100,
+            sessionsShort: getSessionsShort(attended, counted, threshold),
+            status,
+            condonation,
+        };
+    });
+
+    students.sort((a, b) => a.percentage - b.percentage || a.name.localeCompare(b.name));
+
+    const countStatus = (status: EligibilityStatus) => students.filter((student) => student.status === status).length;
+
+    return {
+        course: { id: course.id, code: course.code, title: course.title },
+        threshold,
+        eligibleCount: countStatus('ELIGIBLE'),
+        condonedCount: countStatus('CONDONED'),
+        ineligibleCount: countStatus('INELIGIBLE'),
+        students,
+    };
+};
+
+const filterStudents = (report: ICourseEligibility, filters: IEligibilityFilters): ICourseEligibility =>
+    filters.status
+        ? { ...report, students: report.students.filter((student) => student.status === filters.status) }
+        : report;
+
+/**
+ * Eligibility report for a course, for its teacher, the department head or an admin
+ */
+const getCourseEligibility = async (
+    courseId: string,
+    filters: IEligibilityFilters,
+    userId: string,
+    role: string
+): Promise<ICourseEligibility> => {
+    const course = await prisma.course.findUnique({ where: { id: courseId }, select: COURSE_SELECT });
+    if (!course) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Course not found');
+    }
+
+    if (!isAdmin(role) && course.teacherId !== userId && !isDepartmentHead(course, userId)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the course teacher, department head or an admin can view eligibility');
+    }
+
+    const threshold = await SettingsService.getNumberSetting('attendance.minRequiredPercent');
+    const report = await evaluateCourse(course, threshold);
+
+    return filterStudents(report, filters);
+};
+
+/**
+ * Eligibility report for every course of a semester, for the department head or an admin
+ */
+const getSemesterEligibility = async (
+    semesterId: string,
+    filters: IEligibilityFilters,
+    userId: string,
+    role: string
+): Promise<ISemesterEligibility> => {
+    const semester = await prisma.semester.findUnique({
+        where: { id: semesterId },
+        include: { department: { select: { head: { select: { userId: true } } } } },
+    });
+    if (!semester) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Semester not found');
+    }
+
+    if (!isAdmin(role) && semester.department?.head?.userId !== userId) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the department head or an admin can view semester eligibility');
+    }
+
+    const [threshold, courses] = await Promise.all([
+        SettingsService.getNumberSetting('attendance.minRequiredPercent'),
+        prisma.course.findMany({
+            where: { semesterId },
+            select: COURSE_SELECT,
+            orderBy: { code: 'asc' },
+        }),
+    ]);
+
+    const reports = await Promise.all(courses.map((course) => evaluateCourse(course, threshold)));
+
+    return {
+        semester: { id: semester.id, name: semester.name, year: semester.year },
+        threshold,
+        courses: reports.map((report) => filterStudents(report, filters)),
+    };
+};
+
+const ELIGIBILITY_HEADER = [
+    'Student ID',
+    'Name',
+    'Classes Attended',
+    'Classes Counted',
+    'Attendance %',
+    'Classes Short',
+    'Status',
+    'Condonation Reason',
+];
+
+const toExportRow = (student: IAttendanceEligibility): ExportCell[] => [
+    student.studentId,
+    student.name,
+    student.attended,
+    student.counted,
+    student.percentage,
+    student.sessionsShort,
+    STATUS_LABELS[student.status],
+    student.condonation?.reason ?? null,
+];
+
+/**
+ * Export the final eligible / ineligible list for a course
+ */
+const exportCourseEligibility = async (
+    courseId: string,
+    filters: IEligibilityFilters,
+    userId: string,
+    role: string
+) => {
+    const report = await getCourseEligibility(courseId, filters, userId, role);
+
+    const file = await exportTable(
+        `${report.course.code} eligibility`,
+        ELIGIBILITY_HEADER,
+        report.students.map(toExportRow),
+        filters.format ?? 'csv'
+    );
+
+    return { ...file, fileName: `${report.course.code}-eligibility.${file.extension}` };
+};
+
+/**
+ * Export the final eligible / ineligible list for every course of a semester
+ */
+const exportSemesterEligibility = async (
+    semesterId: string,
+    filters: IEligibilityFilters,
+    userId: string,
+    role: string
+) => {
+    const report = await getSemesterEligibility(semesterId, filters, userId, role);
+
+    const rows = report.courses.flatMap((course) =>
+        course.students.map((student) => [course.course.code, ...toExportRow(student)])
+    );
+
+    const file = await exportTable(
+        `${report.semester.name} eligibility`,
+        ['Course', ...ELIGIBILITY_HEADER],
+        rows,
+        filters.format ?? 'csv'
+    );
+
+    const name = `${report.semester.name}-${report.semester.year}`.replace(/[^\w-]+/g, '-');
+    return { ...file, fileName: `${name}-eligibility.${file.extension}` };
+};
+
+/**
+ * Grant condonation to a student below the attendance requirement; department heads and admins only
+ */
+const grantCondonation = async (payload: ICondonationCreate) => {
+    const course = await prisma.course.findUnique({ where: { id: payload.courseId }, select: COURSE_SELECT });
+    if (!course) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Course not found');
+    }
+
+    if (!isAdmin(payload.role) && !isDepartmentHead(course, payload.grantedBy)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the department head or an admin can grant condonation');
+    }
+
+    const threshold = await SettingsService.getNumberSetting('attendance.minRequiredPercent');
+    const report = await evaluateCourse(course, threshold, payload.userId);
+    const standing = report.students[0];
+
+    if (!standing) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Student is not enrolled in this course');
+    }
+    if (standing.status === 'CONDONED') {
+        throw new AppError(StatusCodes.CONFLICT, 'Condonation has already been granted for this course');
+    }
+    if (standing.status !== 'INELIGIBLE') {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Student already meets the attendance requirement');
+    }
+
+    const condonation = await prisma.attendanceCondonation.create({
+        data: {
+            courseId: course.id,
+            userId: payload.userId,
+            reason: payload.reason,
+            grantedBy: payload.grantedBy,
+        },
+    });
+
+    await AuditService.createAuditLog({
+        userId: payload.grantedBy,
+        action: AuditAction.CONDONATION_GRANTED,
+        entity: 'Attendance',
+        entityId: condonation.id,
+        changes: {
+            after: {
+                courseId: course.id,
+                studentId: payload.userId,
+                percentage: standing.percentage,
+                reason: payload.reason,
+            },
+        },
+        ipAddress: payload.ipAddress,
+        userAgent: payload.userAgent,
+    });
+
+    await notificationServices.sendNotification({
+        recipientId: payload.userId,
+        title: 'Attendance condonation granted',
+        message: `Your attendance shortfall in ${course.title} (${course.code}) has been condoned. You are eligible for the exam.`,
+    });
+
+    return condonation;
+};
+
+/**
+ * Withdraw a condonation, making the student ineligible again if still below the requirement
+ */
+const revokeCondonation = async (
+    id: string,
+    actor: { userId: string; role: string; ipAddress?: string; userAgent?: string }
+) => {
+    const condonation = await prisma.attendanceCondonation.findUnique({
+        where: { id },
+        include: { course: { select: COURSE_SELECT } },
+    });
+    if (!condonation) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Condonation not found');
+    }
+
+    if (!isAdmin(actor.role) && !isDepartmentHead(condonation.course, actor.userId)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the department head or an admin can revoke condonation');
+    }
+
+    await prisma.attendanceCondonation.delete({ where: { id } });
+
+    await AuditService.createAuditLog({
+        userId: actor.userId,
+        action: AuditAction.CONDONATION_REVOKED,
+        entity: 'Attendance',
+        entityId: condonation.id,
+        changes: {
+            before: {
+                courseId: condonation.courseId,
+                studentId: condonation.userId,
+                reason: condonation.reason,
+            },
+        },
+        ipAddress: actor.ipAddress,
+        userAgent: actor.userAgent,
+    });
+
+    return condonation;
+};
+
+/**
+ * A student's eligibility in each enrolled course, for the student dashboard
+ */
+const getStudentEligibility = async (userId: string): Promise<IStudentCourseEligibility[]> => {
+    const [threshold, enrollments] = await Promise.all([
+        SettingsService.getNumberSetting('attendance.minRequiredPercent'),
+        prisma.courseEnrollment.findMany({
+            where: { studentId: userId, course: { isActive: true } },
+            select: { course: { select: COURSE_SELECT } },
+        }),
+    ]);
+
+    return Promise.all(enrollments.map(async ({ course }) => {
+        const report = await evaluateCourse(course, threshold, userId);
+        const standing = report.students[0];
+
+        return {
+            courseId: course.id,
+            code: course.code,
+            title: course.title,
+            percentage: standing?.percentage ?? 100,
+            threshold,
+            sessionsShort: standing?.sessionsShort ?? 0,
+            status: standing?.status ?? 'ELIGIBLE',
+        };
+    }));
+};
+
+export const AttendanceEligibilityService = {
+    getCourseEligibility,
+    getSemesterEligibility,
+    exportCourseEligibility,
+    exportSemesterEligibility,
+    grantCondonation,
+    revokeCondonation,
+    getStudentEligibility,
+};
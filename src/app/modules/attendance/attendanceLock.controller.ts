@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { AttendanceLockService } from './attendanceLock.service';
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import { StatusCodes } from 'http-status-codes';
+
+// Lock attendance for a semester or date range
+const lockPeriod = catchAsync(async (req: Request, res: Response) => {
+    const lock = await AttendanceLockService.lockPeriod({
+        ...req.body,
+        lockedBy: req.user.id,
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: 'Attendance period locked successfully',
+        data: lock,
+    });
+});
+
+// Unlock a previously locked period
+const unlockPeriod = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const lock = await AttendanceLockService.unlockPeriod(id, req.user.id);
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Attendance period unlocked successfully',
+        data: lock,
+    });
+});
+
+// Get attendance locks
+const getLocks = catchAsync(async (req: Request, res: Response) => {
+    const locks = await AttendanceLockService.getLocks(req.query);
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Attendance locks retrieved successfully',
+        data: locks,
+    });
+});
+
+export const AttendanceLockController = {
+    lockPeriod,
+    unlockPeriod,
+    getLocks,
+};
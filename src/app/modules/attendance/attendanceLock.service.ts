@@ -0,0 +1,158 @@
+import { Prisma } from '@prisma/client';
+import {
+    IAttendanceLock,
+    IAttendanceLockCreate,
+    IAttendanceLockFilters,
+} from './attendance.interface';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { endOfZonedDay, formatZonedDate, startOfZonedDay } from '../../utils/zonedTime';
+
+// Lock attendance for a semester, or for a date range across one or all departments
+const lockPeriod = async (payload: IAttendanceLockCreate): Promise<IAttendanceLock> => {
+    let { name, departmentId } = payload;
+    let startDate: Date | string | null = payload.startDate ?? null;
+    let endDate: Date | string | null = payload.endDate ?? null;
+
+    if (payload.semesterId) {
+        const semester = await prisma.semester.findUnique({
+            where: { id: payload.semesterId },
+        });
+        if (!semester) {
+            throw new AppError(StatusCodes.NOT_FOUND, 'Semester not found');
+        }
+
+        name = name || `${semester.name} ${semester.year}`;
+        departmentId = semester.departmentId;
+        startDate = startDate || semester.startDate;
+        endDate = endDate || semester.endDate;
+    } else if (departmentId) {
+        const department = await prisma.department.findUnique({
+            where: { id: departmentId },
+        });
+        if (!department) {
+            throw new AppError(StatusCodes.NOT_FOUND, 'Department not found');
+        }
+    }
+
+    if (!startDate || !endDate) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'A semester or a start and end date is required');
+    }
+
+    // Locks cover whole days in the department's time zone
+    const timeZone = await AcademicCalendarService.getTimeZone(departmentId);
+    const lockStart = startOfZonedDay(startDate, timeZone);
+    const lockEnd = endOfZonedDay(endDate, timeZone);
+
+    if (lockEnd < lockStart) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'End date must be after or equal to start date');
+    }
+
+    return prisma.attendanceLock.create({
+        data: {
+            name: name || `${formatZonedDate(lockStart, timeZone)} to ${formatZonedDate(lockEnd, timeZone)}`,
+            semesterId: payload.semesterId,
+            departmentId,
+            startDate: lockStart,
+            endDate: lockEnd,
+            reason: payload.reason,
+            lockedBy: payload.lockedBy,
+        },
+    });
+};
+
+// Lift a lock; the record is kept for reference
+const unlockPeriod = async (id: string, unlockedBy: string): Promise<IAttendanceLock> => {
+    const lock = await prisma.attendanceLock.findUnique({ where: { id } });
+    if (!lock) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Attendance lock not found');
+    }
+
+    if (!lock.isActive) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Attendance lock is already lifted');
+    }
+
+    return prisma.attendanceLock.update({
+        where: { id },
+        data: {
+            isActive: false,
+            unlockedBy,
+            unlockedAt: new Date(),
+        },
+    });
+};
+
+// Get attendance locks with filters
+const getLocks = async (filters: IAttendanceLockFilters) => {
+    const where: Prisma.AttendanceLockWhereInput = {};
+
+    if (filters.isActive !== undefined) where.isActive = String(filters.isActive) === 'true';
+    if (filters.semesterId) where.semesterId = filters.semesterId;
+    if (filters.departmentId) where.departmentId = filters.departmentId;
+
+    return prisma.attendanceLock.findMany({
+        where,
+        include: {
+            semester: { select: { id: true, name: true, year: true } },
+            department: { select: { id: true, name: true, code: true } },
+            locker: { select: { id: true, name: true, email: true } },
+            unlocker: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { startDate: 'desc' },
+    });
+};
+
+// The active lock covering any day between from and to (in the course's time zone) of a course's attendance, if any
+const findLock = async (courseId: string, from: Date | string, to: Date | string = from) => {
+    const course = await prisma.course.findUnique({
+        where: { id: courseId },
+        select: { departmentId: true, semesterId: true },
+    });
+    if (!course) {
+        return null;
+    }
+
+    const scopes: Prisma.AttendanceLockWhereInput[] = [{ departmentId: null, semesterId: null }];
+    if (course.departmentId) scopes.push({ departmentId: course.departmentId });
+    if (course.semesterId) scopes.push({ semesterId: course.semesterId });
+
+    const timeZone = await AcademicCalendarService.getTimeZone(course.departmentId);
+    const lock = await prisma.attendanceLock.findFirst({
+        where: {
+            isActive: true,
+            startDate: { lte: endOfZonedDay(to, timeZone) },
+            endDate: { gte: startOfZonedDay(from, timeZone) },
+            OR: scopes,
+        },
+    });
+
+    return lock && { lock, timeZone };
+};
+
+// Whether any day between from and to of a course's attendance is locked, for writes that are skipped rather than refused
+const isLocked = async (courseId: string, from: Date | string, to: Date | string = from): Promise<boolean> => {
+    return (await findLock(courseId, from, to)) !== null;
+};
+
+// Refuse writes to a course's attendance on any day between from and to (in the course's time zone) that falls inside an active lock
+const assertNotLocked = async (courseId: string, from: Date | string, to: Date | string = from): Promise<void> => {
+    const found = await findLock(courseId, from, to);
+
+    if (found) {
+        const { lock, timeZone } = found;
+        throw new AppError(
+            StatusCodes.LOCKED,
+            `Attendance is locked for "${lock.name}" (${formatZonedDate(lock.startDate, timeZone)} to ${formatZonedDate(lock.endDate, timeZone)})`
+        );
+    }
+};
+
+export const AttendanceLockService = {
+    lockPeriod,
+    unlockPeriod,
+    getLocks,
+    isLocked,
+    assertNotLocked,
+};
@@ -0,0 +1,191 @@
+import { Prisma } from '@prisma/client';
+import { IAttendancePolicy, IAttendanceTally } from './attendance.interface';
+import prisma from '../../config/prisma';
+import { SettingsService } from '../settings/settings.service';
+import { DEFAULT_SETTINGS } from '../settings/settings.interface';
+
+type PolicyOverrides = {
+    lateWeight: number | null;
+    partialWeight: number | null;
+    excludeExcused: boolean | null;
+};
+
+const POLICY_SELECT = { lateWeight: true, partialWeight: true, excludeExcused: true } as const;
+
+const getWeightSetting = async (key: 'attendance.lateWeight' | 'attendance.partialWeight') => {
+    const value = parseFloat(String(await SettingsService.getSetting(key)));
+    return isNaN(value) ? parseFloat(DEFAULT_SETTINGS[key]) : value;
+};
+
+// Institution-wide policy from the attendance settings
+const getDefaultPolicy = async (): Promise<IAttendancePolicy> => {
+    const [lateWeight, partialWeight, excludeExcused] = await Promise.all([
+        getWeightSetting('attendance.lateWeight'),
+        getWeightSetting('attendance.partialWeight'),
+        SettingsService.getBooleanSetting('attendance.excludeExcused'),
+    ]);
+
+    return { lateWeight, partialWeight, excludeExcused };
+};
+
+// Course values win over department values, which win over the settings
+const mergePolicy = (
+    defaults: IAttendancePolicy,
+    course?: PolicyOverrides | null,
+    department?: PolicyOverrides | null
+): IAttendancePolicy => ({
+    lateWeight: course?.lateWeight ?? department?.lateWeight ?? defaults.lateWeight,
+    partialWeight: course?.partialWeight ?? department?.partialWeight ?? defaults.partialWeight,
+    excludeExcused: course?.excludeExcused ?? department?.excludeExcused ?? defaults.excludeExcused,
+});
+
+/**
+ * Resolve the attendance policy for each course, keyed by course ID
+ */
+const resolvePolicies = async (courseIds: string[]): Promise<Map<string, IAttendancePolicy>> => {
+    const [defaults, courses] = await Promise.all([
+        getDefaultPolicy(),
+        prisma.course.findMany({
+            where: { id: { in: [...new Set(courseIds)] } },
+            select: { id: true, ...POLICY_SELECT, department: { select: POLICY_SELECT } },
+        }),
+    ]);
+
+    const policies = new Map(courses.map((course) => [course.id, mergePolicy(defaults, course, course.department)]));
+    courseIds.forEach((courseId) => {
+        if (!policies.has(courseId)) policies.set(courseId, defaults);
+    });
+
+    return policies;
+};
+
+/**
+ * Resolve the attendance policy for a single course
+ */
+const resolvePolicy = async (courseId: string): Promise<IAttendancePolicy> => {
+    const policies = await resolvePolicies([courseId]);
+    return policies.get(courseId) as IAttendancePolicy;
+};
+
+// Classes attended and classes counted for one course's marks
+const weigh = (tally: IAttendanceTally, policy: IAttendancePolicy) => ({
+    attended: tally.present + tally.late * policy.lateWeight + tally.partial * policy.partialWeight,
+    counted: tally.total - (policy.excludeExcused ? tally.excused : 0),
+});
+
+/**
+ * Attendance percentage (0-100, unrounded) for one course's marks
+ */
+const calculatePercentage = (tally: IAttendanceTally, policy: IAttendancePolicy): number => {
+    const { attended, counted } = weigh(tally, policy);
+    return counted > 0 ? (attended / counted) * 100 : 0;
+};
+
+// Add a group of marks to a tally, keyed by course or student
+const addToTally = (
+    tallies: Map<string, IAttendanceTally>,
+    key: string,
+    group: { status: string; proxyFlagged: boolean; _count: { _all: number } }
+) => {
+    const tally = tallies.get(key) ?? { total: 0, present: 0, late: 0, partial: 0, excused: 0 };
+    const count = group._count._all;
+
+    tally.total += count;
+    // Suspected proxy check-ins count as classes held but not as attended until approved
+    if (group.status === 'EXCUSED') tally.excused += count;
+    else if (!group.proxyFlagged && group.status === 'PRESENT') tally.present += count;
+    else if (!group.proxyFlagged && group.status === 'LATE') tally.late += count;
+    else if (!group.proxyFlagged && group.status === 'PARTIAL') tally.partial += count;
+
+    tallies.set(key, tally);
+};
+
+/**
+ * Attendance percentage (0-100, unrounded) over any set of records,
+ * weighing each course's marks by that course's policy
+ */
+const getAttendancePercentage = async (where: Prisma.AttendanceWhereInput): Promise<number> => {
+    const groups = await prisma.attendance.groupBy({
+        by: ['courseId', 'status', 'proxyFlagged'],
+        where,
+        _count: { _all: true },
+    });
+
+    if (groups.length === 0) {
+        return 0;
+    }
+
+    const tallies = new Map<string, IAttendanceTally>();
+    groups.forEach((group) => addToTally(tallies, group.courseId, group));
+
+    const policies = await resolvePolicies([...tallies.keys()]);
+
+    let attended = 0;
+    let counted = 0;
+    tallies.forEach((tally, courseId) => {
+        const weighed = weigh(tally, policies.get(courseId) as IAttendancePolicy);
+        attended += weighed.attended;
+        counted += weighed.counted;
+    });
+
+    return counted > 0 ? (attended / counted) * 100 : 0;
+};
+
+/**
+ * Weighed classes attended and classes counted for each student of a course, keyed by user ID
+ */
+const getStudentTotals = async (
+    courseId: string,
+    where: Prisma.AttendanceWhereInput = {}
+): Promise<Map<string, { attended: number; counted: number }>> => {
+    const [groups, policy] = await Promise.all([
+        prisma.attendance.groupBy({
+            by: ['userId', 'status', 'proxyFlagged'],
+            where: { ...where, courseId },
+            _count: { _all: true },
+        }),
+        resolvePolicy(courseId),
+    ]);
+
+    const tallies = new Map<string, IAttendanceTally>();
+    groups.forEach((group) => addToTally(tallies, group.userId, group));
+
+    return new Map([...tallies].map(([userId, tally]) => [userId, weigh(tally, policy)]));
+};
+
+/**
+ * SQL fragments applying the policy inside raw queries. The attendances table must be
+ * aliased "a" with the joins added after it; the fragments use the pc/pd aliases.
+ * `percentage` is an aggregate (NULL when no class counts), usable in SELECT and HAVING.
+ */
+const getPolicySql = async () => {
+    const defaults = await getDefaultPolicy();
+
+    const attended = `(CASE
+            WHEN a."proxyFlagged" THEN 0
+            WHEN a.status = 'PRESENT' THEN 1
+            WHEN a.status = 'LATE' THEN COALESCE(pc."lateWeight", pd."lateWeight", ${Number(defaults.lateWeight)})
+            WHEN a.status = 'PARTIAL' THEN COALESCE(pc."partialWeight", pd."partialWeight", ${Number(defaults.partialWeight)})
+            ELSE 0 END)`;
+    const counted = `(CASE
+            WHEN a.id IS NULL THEN 0
+            WHEN a.status = 'EXCUSED' AND COALESCE(pc."excludeExcused", pd."excludeExcused", ${defaults.excludeExcused ? 'TRUE' : 'FALSE'}) THEN 0
+            ELSE 1 END)`;
+
+    return {
+        joins: `LEFT JOIN courses pc ON pc.id = a."courseId" LEFT JOIN departments pd ON pd.id = pc."departmentId"`,
+        attended,
+        counted,
+        percentage: `(SUM(${attended}) * 100.0 / NULLIF(SUM(${counted}), 0))`,
+    };
+};
+
+export const AttendancePolicyService = {
+    getDefaultPolicy,
+    resolvePolicy,
+    resolvePolicies,
+    calculatePercentage,
+    getAttendancePercentage,
+    getStudentTotals,
+    getPolicySql,
+};
@@ -0,0 +1,18 @@
+import { Request, Response } from 'express';
+import { AttendanceRegisterService } from './attendanceRegister.service';
+import catchAsync from '../../utils/catchAsync';
+
+// Download the attendance register for a course
+const exportCourseRegister = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const file = await AttendanceRegisterService.exportCourseRegister(id, req.query);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.buffer);
+});
+
+export const AttendanceRegisterController = {
+    exportCourseRegister,
+};
@@ -0,0 +1,225 @@
+import { AttendanceStatus, Prisma } from '@prisma/client';
+import {
+    IAttendanceRegister,
+    IAttendanceRegisterColumn,
+    IAttendanceRegisterFilters,
+} from './attendance.interface';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import exportTable from '../../utils/exportTable';
+import { AttendancePolicyService } from './attendancePolicy.service';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { endOfZonedDay, startOfZonedDay, toZonedDateKey, toZonedTimeString } from '../../utils/zonedTime';
+
+// Register cell codes, the way they appear on a paper roll
+const STATUS_CODES: Record<AttendanceStatus, string> = {
+    PRESENT: 'P',
+    ABSENT: 'A',
+    LATE: 'L',
+    EXCUSED: 'E',
+    PARTIAL: 'PT',
+};
+
+/**
+ * Build a course register: one row per enrolled student of the course's batch,
+ * one column per class period held in the range (clamped to the course's semester)
+ */
+const getCourseRegister = async (
+    courseId: string,
+    filters: IAttendanceRegisterFilters
+): Promise<IAttendanceRegister> => {
+    const course = await prisma.course.findUnique({
+        where: { id: courseId },
+        include: { semesterInfo: true },
+    });
+
+    if (!course) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Course not found');
+    }
+
+    const timeZone = await AcademicCalendarService.getTimeZone(course.departmentId);
+    const semester = course.semesterInfo;
+    let startDate = filters.startDate ? startOfZonedDay(filters.startDate, timeZone) : semester?.startDate ?? null;
+    let endDate = filters.endDate ? startOfZonedDay(filters.endDate, timeZone) : semester?.endDate ?? new Date();
+
+    if (!startDate) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Start date is required for a course without a semester');
+    }
+
+    if (semester) {
+        startDate = new Date(Math.max(startDate.getTime(), semester.startDate.getTime()));
+        endDate = new Date(Math.min(endDate.getTime(), semester.endDate.getTime()));
+    }
+
+    // Whole days in the course's time zone
+    startDate = startOfZonedDay(startDate, timeZone);
+    endDate = endOfZonedDay(endDate, timeZone);
+
+    if (endDate < startDate) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'The date range falls outside the course semester');
+    }
+
+    // Students enrolled from other batches are not part of this course's register
+    const enrollmentWhere: Prisma.CourseEnrollmentWhereInput = { courseId };
+    if (course.batchId) {
+        enrollmentWhere.student = { studentProfile: { batchId: course.batchId } };
+    }
+
+    const enrollments = await prisma.courseEnrollment.findMany({
+        where: enrollmentWhere,
+        include: {
+            student: {
+                select: {
+                    id: true,
+                    name: true,
+                    studentProfile: { select: { studentId: true } },
+                },
+            },
+        },
+    });
+
+    const students = enrollments
+        .map((enrollment) => enrollment.student)
+        .sort((a, b) => (a.studentProfile?.studentId ?? a.name).localeCompare(b.studentProfile?.studentId ?? b.name));
+
+    const records = await prisma.attendance.findMany({
+        where: {
+            courseId,
+            userId: { in: students.map((student) => student.id) },
+            date: { gte: startDate, lte: endDate },
+        },
+        select: {
+            userId: true,
+            date: true,
+            periodKey: true,
+            status: true,
+            proxyFlagged: true,
+            attendanceSession: { select: { startTime: true } },
+            classSchedule: { select: { startTime: true } },
+        },
+    });
+
+    // Every distinct period anyone was recorded for becomes a column, ordered by day and start time
+    const periods = new Map<string, IAttendanceRegisterColumn & { startTime: string }>();
+    for (const record of records) {
+        const key = `${record.date.getTime()}|${record.periodKey}`;
+        if (!periods.has(key)) {
+            periods.set(key, {
+                date: record.date,
+                periodKey: record.periodKey,
+                label: toZonedDateKey(record.date, timeZone),
+                startTime: record.attendanceSession
+                    ? toZonedTimeString(record.attendanceSession.startTime, timeZone)
+                    : record.classSchedule?.startTime ?? '',
+            });
+        }
+    }
+
+    const columns = [...periods.values()].sort(
+        (a, b) => a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime)
+    );
+
+    // Tell periods on the same day apart by their start time
+    const periodsPerDay = new Map<number, number>();
+    columns.forEach((column) => {
+        periodsPerDay.set(column.date.getTime(), (periodsPerDay.get(column.date.getTime()) ?? 0) + 1);
+    });
+    columns.forEach((column) => {
+        if ((periodsPerDay.get(column.date.getTime()) ?? 0) > 1 && column.startTime) {
+            column.label = `${column.label} ${column.startTime}`;
+        }
+    });
+
+    const columnIndex = new Map(columns.map((column, index) => [`${column.date.getTime()}|${column.periodKey}`, index]));
+
+    const policy = await AttendancePolicyService.resolvePolicy(course.id);
+
+    const rows = students.map((student) => {
+        const marks: (string | null)[] = columns.map(() => null);
+        const counts = { present: 0, absent: 0, late: 0, excused: 0, partial: 0 };
+
+        for (const record of records) {
+            if (record.userId !== student.id) continue;
+
+            const index = columnIndex.get(`${record.date.getTime()}|${record.periodKey}`);
+            if (index === undefined) continue;
+
+            // Suspected proxy check-ins stay out of the totals until a teacher approves them
+            if (record.proxyFlagged && record.status !== 'ABSENT' && record.status !== 'EXCUSED') {
+                marks[index] = `${STATUS_CODES[record.status]}?`;
+                continue;
+            }
+
+            marks[index] = STATUS_CODES[record.status];
+            counts[record.status.toLowerCase() as keyof typeof counts] += 1;
+        }
+
+        const total = marks.filter((mark) => mark !== null).length;
+
+        return {
+            userId: student.id,
+            studentId: student.studentProfile?.studentId ?? null,
+            name: student.name,
+            marks,
+            ...counts,
+            total,
+            percentage: Math.round(AttendancePolicyService.calculatePercentage({ ...counts, total }, policy)),
+        };
+    });
+
+    return {
+        course: { id: course.id, code: course.code, title: course.title },
+        startDate,
+        endDate,
+        columns: columns.map(({ date, periodKey, label }) => ({ date, periodKey, label })),
+        rows,
+    };
+};
+
+/**
+ * Export a course register as a CSV or XLSX file
+ */
+const exportCourseRegister = async (courseId: string, filters: IAttendanceRegisterFilters) => {
+    const register = await getCourseRegister(courseId, filters);
+
+    const header = [
+        'Student ID',
+        'Name',
+        ...register.columns.map((column) => column.label),
+        'P',
+        'A',
+        'L',
+        'E',
+        'PT',
+        'Total',
+        'Attendance %',
+    ];
+
+    const rows = register.rows.map((row) => [
+        row.studentId,
+        row.name,
+        ...row.marks,
+        row.present,
+        row.absent,
+        row.late,
+        row.excused,
+        row.partial,
+        row.total,
+        row.percentage,
+    ]);
+
+    const file = await exportTable(`${register.course.code} register`, header, rows, filters.format ?? 'csv');
+    const timeZone = await AcademicCalendarService.getCourseTimeZone(courseId);
+    const [from, to] = [register.startDate, register.endDate].map((date) => toZonedDateKey(date, timeZone));
+
+    return {
+        ...file,
+        fileName: `${register.course.code}-register-${from}-${to}.${file.extension}`,
+    };
+};
+
+export const AttendanceRegisterService = {
+    getCourseRegister,
+    exportCourseRegister,
+};
@@ -3,10 +3,17 @@ import { AttendanceSessionService } from './attendanceSession.service';
 import catchAsync from '../../utils/catchAsync';
 import sendResponse from '../../utils/sendResponse';
 import { StatusCodes } from 'http-status-codes';
+import AppError from '../../errors/AppError';
+import { AttendanceSessionEvents } from './attendanceSession.events';
+import { IAttendanceSessionEvent } from './attendance.interface';
+import { AttendanceSessionSheetService } from './attendanceSessionSheet.service';
+
+// Keep idle streams alive through proxies that drop silent connections
+const STREAM_HEARTBEAT_MS = 25000;
 
 // Create attendance session
 const createAttendanceSession = catchAsync(async (req: Request, res: Response) => {
-    const { courseId, teacherId, startTime, location, notes } = req.body;
+    const { courseId, teacherId, startTime, location, notes, classScheduleId, makeUpClassId, latitude, longitude, geofenceRadius } = req.body;
 
     const session = await AttendanceSessionService.createAttendanceSession({
         courseId,
@@ -14,6 +21,11 @@ const createAttendanceSession = catchAsync(async (req: Request, res: Response) =
         startTime: startTime ? new Date(startTime) : new Date(),
         location,
         notes,
+        classScheduleId,
+        makeUpClassId,
+        latitude,
+        longitude,
+        geofenceRadius,
     });
 
     sendResponse(res, {
@@ -63,9 +75,8 @@ const getSessionStats = catchAsync(async (req: Request, res: Response) => {
 // End attendance session
 const endSession = catchAsync(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { teacherId } = req.body;
 
-    const session = await AttendanceSessionService.endSession(id, teacherId);
+    const session = await AttendanceSessionService.endSession(id, req.user.id, req.user.role);
 
     sendResponse(res, {
         statusCode: StatusCodes.OK,
@@ -74,6 +85,158 @@ const endSession = catchAsync(async (req: Request, res: Response) => {
     });
 });
 
+// Get the current rotating check-in code for a session
+const getSessionCode = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const code = await AttendanceSessionService.getSessionCode(id, req.user.id, req.user.role);
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Check-in code retrieved successfully',
+        data: code,
+    });
+});
+
+// Stream check-ins and the live roster of a running session over Server-Sent Events
+const streamSession = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { id: userId, role } = req.user;
+
+    // Load the roster before opening the stream so access errors still get a normal JSON response
+    const roster = await AttendanceSessionService.getSessionRoster(id, userId, role);
+    if (!roster.isActive) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Session is no longer active');
+    }
+
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let unsubscribe = () => {};
+
+    // The stream can close while a roster is loading, so every write checks it is still open
+    const write = (chunk: string) => {
+        if (!closed) res.write(chunk);
+    };
+
+    const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const heartbeat = setInterval(() => write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+    };
+
+    const sendRoster = async () => {
+        try {
+            send('roster', await AttendanceSessionService.getSessionRoster(id, userId, role));
+        } catch {
+            close();
+        }
+    };
+
+    const handleEvent = async (event: IAttendanceSessionEvent) => {
+        if (closed) return;
+
+        if (event.type === 'check-in') {
+            send('check-in', event.attendance);
+        }
+
+        await sendRoster();
+
+        if (event.type === 'session-ended') {
+            send('session-ended', { sessionId: event.sessionId });
+            close();
+        }
+    };
+
+    // Events are handled one at a time, so roster reloads cannot overlap or arrive out of order
+    let pending = Promise.resolve();
+    unsubscribe = AttendanceSessionEvents.subscribe(id, (event) => {
+        pending = pending.then(() => handleEvent(event));
+    });
+
+    req.on('close', close);
+    res.on('error', close);
+    send('roster', roster);
+});
+
+// Student self check-in with a session code
+const checkIn = catchAsync(async (req: Request, res: Response) => {
+    const { sessionId, code, latitude, longitude, accuracy, deviceFingerprint } = req.body;
+
+    const attendance = await AttendanceSessionService.checkIn({
+        sessionId,
+        code,
+        userId: req.user.id,
+        latitude,
+        longitude,
+        accuracy,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        deviceFingerprint,
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: attendance.locationFlagged
+            ? 'Check-in recorded and flagged for teacher review'
+            : 'Check-in successful',
+        data: attendance,
+    });
+});
+
+// Check out of a session: students for themselves, teachers for a student
+const checkOut = catchAsync(async (req: Request, res: Response) => {
+    const { sessionId, userId, checkOut } = req.body;
+
+    const attendance = await AttendanceSessionService.checkOut({
+        sessionId,
+        userId,
+        checkOut,
+        actorId: req.user.id,
+        role: req.user.role,
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: attendance.status === 'PARTIAL'
+            ? 'Check-out recorded; attendance marked as partial'
+            : 'Check-out successful',
+        data: attendance,
+    });
+});
+
+// Approve or reject a check-in flagged outside the session geofence
+const reviewLocation = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const attendance = await AttendanceSessionService.reviewLocation({
+        attendanceId: id,
+        approved: req.body.approved,
+        reviewerId: req.user.id,
+        role: req.user.role,
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: req.body.approved ? 'Check-in location approved' : 'Check-in location rejected',
+        data: attendance,
+    });
+});
+
 // Get attendance sessions with filters
 const getAttendanceSessions = catchAsync(async (req: Request, res: Response) => {
     const {
@@ -138,11 +301,28 @@ const getAttendanceSessionById = catchAsync(async (req: Request, res: Response)
     });
 });
 
+// Download a printable PDF roll-call sheet for a session
+const downloadRollCallSheet = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const file = await AttendanceSessionSheetService.generateRollCallSheet(id, req.user.id, req.user.role);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.buffer);
+});
+
 export const AttendanceSessionController = {
     createAttendanceSession,
     getActiveSession,
     getSessionStats,
     endSession,
+    getSessionCode,
+    streamSession,
+    checkIn,
+    checkOut,
+    reviewLocation,
     getAttendanceSessions,
     getAttendanceSessionById,
+    downloadRollCallSheet,
 };
@@ -0,0 +1,24 @@
+import { EventEmitter } from 'events';
+import { IAttendanceSessionEvent } from './attendance.interface';
+
+// In-process hub for live session updates; subscribers only see events raised by this server instance
+const emitter = new EventEmitter();
+
+// Each open roster stream adds a listener, so lift the default cap of 10 per session
+emitter.setMaxListeners(0);
+
+export const AttendanceSessionEvents = {
+    // Notify everyone watching a session that something changed
+    publish: (sessionId: string, event: IAttendanceSessionEvent) => {
+        emitter.emit(sessionId, event);
+    },
+
+    // Listen for a session's events; returns a function that removes the listener
+    subscribe: (sessionId: string, listener: (event: IAttendanceSessionEvent) => void) => {
+        emitter.on(sessionId, listener);
+
+        return () => {
+            emitter.off(sessionId, listener);
+        };
+    },
+};
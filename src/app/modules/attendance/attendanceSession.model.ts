@@ -4,6 +4,7 @@ import {
     IAttendanceSessionCreate,
     IAttendanceSessionUpdate,
     IAttendanceSessionFilters,
+    IAttendanceSessionCode,
 } from './attendance.interface';
 
 // Attendance Session model operations
@@ -18,6 +19,12 @@ export const AttendanceSessionModel = {
                 startTime: data.startTime,
                 location: data.location,
                 notes: data.notes,
+                classScheduleId: data.classScheduleId,
+                latitude: data.latitude,
+                longitude: data.longitude,
+                geofenceRadius: data.geofenceRadius,
+                autoGenerated: data.autoGenerated,
+                makeUpClassId: data.makeUpClassId,
                 isActive: true,
             },
             include: {
@@ -162,6 +169,40 @@ export const AttendanceSessionModel = {
 
         return result as unknown as IAttendanceSession[];
     },
+
+    // Create a check-in code for a session
+    createCode: async (attendanceSessionId: string, code: string, expiresAt: Date): Promise<IAttendanceSessionCode> => {
+        return await prisma.attendanceSessionCode.create({
+            data: {
+                attendanceSessionId,
+                code,
+                expiresAt,
+            },
+        });
+    },
+
+    // Get the latest unexpired check-in code for a session
+    findCurrentCode: async (attendanceSessionId: string): Promise<IAttendanceSessionCode | null> => {
+        return await prisma.attendanceSessionCode.findFirst({
+            where: {
+                attendanceSessionId,
+                expiresAt: { gt: new Date() },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+    },
+
+    // Find a check-in code issued for a session
+    findCode: async (attendanceSessionId: string, code: string): Promise<IAttendanceSessionCode | null> => {
+        return await prisma.attendanceSessionCode.findUnique({
+            where: {
+                attendanceSessionId_code: {
+                    attendanceSessionId,
+                    code,
+                },
+            },
+        });
+    },
 };
 
 export default AttendanceSessionModel;
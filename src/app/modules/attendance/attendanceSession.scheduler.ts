@@ -0,0 +1,45 @@
+import { AttendanceSessionService } from './attendanceSession.service';
+import logError from '../../utils/logError';
+
+// How often class schedules and make-up classes are checked for sessions to open or close
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// One pass over the class schedules; a slow pass is never overlapped by the next tick
+const run = async () => {
+    if (running) {
+        return;
+    }
+
+    running = true;
+    try {
+        await AttendanceSessionService.closeScheduledSessions();
+        await AttendanceSessionService.openScheduledSessions();
+        await AttendanceSessionService.openMakeUpSessions();
+    } catch (error) {
+        logError('Failed to sync scheduled attendance sessions', error);
+    } finally {
+        running = false;
+    }
+};
+
+export const AttendanceSessionScheduler = {
+    // Start opening and closing sessions from the class schedule
+    start: () => {
+        if (timer) {
+            return;
+        }
+
+        timer = setInterval(run, SCHEDULER_INTERVAL_MS);
+        run();
+    },
+
+    stop: () => {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -1,14 +1,36 @@
+import crypto from 'crypto';
 import { AttendanceSessionModel } from './attendanceSession.model';
+import { AttendanceModel, getPeriodKey } from './attendance.model';
+import { attendanceServices } from './attendance.service';
+import { AttendanceSessionEvents } from './attendanceSession.events';
+import { AttendanceLockService } from './attendanceLock.service';
+import { AttendanceAnomalyService } from './attendanceAnomaly.service';
+import { AttendanceStreakService } from './attendanceStreak.service';
+import { AttendanceCancellationService } from './attendanceCancellation.service';
+import { AcademicCalendarService, LoadedCalendar } from '../calendar/calendar.service';
+import { atZonedTime, endOfZonedDay, getZonedWeekday, startOfZonedDay } from '../../utils/zonedTime';
 import {
+    IAttendance,
     IAttendanceSession,
+    IAttendanceSessionCode,
     IAttendanceSessionCreate,
     IAttendanceSessionFilters,
     IAttendanceSessionStats,
+    IAttendanceSessionRoster,
+    IEndedAttendanceSession,
+    ISessionCheckIn,
+    ISessionCheckOut,
+    ILocationReview,
+    AttendanceStatus,
 } from './attendance.interface';
 import AppError from '../../errors/AppError';
 import { StatusCodes } from 'http-status-codes';
 import { CourseModel } from '../course';
 import { TeacherModel } from '../teacher/teacher.model';
+import { SettingsService } from '../settings/settings.service';
+import { deviceServices } from '../device/device.service';
+import prisma from '../../config/prisma';
+import geoDistance from '../../utils/geoDistance';
 
 // Create attendance session
 const createAttendanceSession = async (payload: IAttendanceSessionCreate): Promise<IAttendanceSession> => {
@@ -20,20 +42,63 @@ const createAttendanceSession = async (payload: IAttendanceSessionCreate): Promi
         throw new AppError(StatusCodes.BAD_REQUEST, 'Course not found');
     }
 
+    // The session belongs to a day in the course's time zone
+    const timeZone = await AcademicCalendarService.getTimeZone(courseExists.departmentId);
+    const date = startOfZonedDay(payload.date || payload.startTime || new Date(), timeZone);
+
     // Validate teacher exists
     const teacherExists = await TeacherModel.findById(payload.teacherId);
     if (!teacherExists) {
         throw new AppError(StatusCodes.BAD_REQUEST, 'Teacher not found');
     }
 
+    // Sessions linked to a class schedule inherit its room's geofence unless the teacher sets one
+    let geofence = {
+        latitude: payload.latitude,
+        longitude: payload.longitude,
+        geofenceRadius: payload.geofenceRadius,
+    };
+
+    if (payload.classScheduleId) {
+        const schedule = await prisma.classSchedule.findUnique({
+            where: { id: payload.classScheduleId },
+        });
+        if (!schedule || schedule.courseId !== payload.courseId) {
+            throw new AppError(StatusCodes.BAD_REQUEST, 'Class schedule does not belong to this course');
+        }
+
+        await AttendanceCancellationService.assertNotCancelled(schedule.id, date);
+
+        if (geofence.latitude == null || geofence.longitude == null) {
+            geofence = {
+                latitude: schedule.roomLatitude,
+                longitude: schedule.roomLongitude,
+                geofenceRadius: geofence.geofenceRadius ?? schedule.roomGeofenceRadius,
+            };
+        }
+    }
+
+    if (payload.makeUpClassId) {
+        const makeUpClass = await prisma.makeUpClass.findUnique({
+            where: { id: payload.makeUpClassId },
+            include: { cancellation: { include: { classSchedule: true } } },
+        });
+        if (!makeUpClass || makeUpClass.cancellation.classSchedule.courseId !== payload.courseId) {
+            throw new AppError(StatusCodes.BAD_REQUEST, 'Make-up class does not belong to this course');
+        }
+    }
+
     // Create session data
     const sessionData = {
         courseId: payload.courseId,
         teacherId: teacherExists.userId,
-        date: payload.date || new Date(),
+        date,
         startTime: payload.startTime || new Date(),
         location: payload.location,
         notes: payload.notes,
+        classScheduleId: payload.classScheduleId,
+        makeUpClassId: payload.makeUpClassId,
+        ...geofence,
     };
 
     const result = await AttendanceSessionModel.create(sessionData);
@@ -63,48 +128,171 @@ const getSessionStats = async (sessionId: string): Promise<IAttendanceSessionSta
         throw new AppError(StatusCodes.NOT_FOUND, 'Session not found');
     }
 
-    const sessionStart = new Date(session.startTime);
-    const sessionEnd = session.endTime || new Date();
+    const [totalTokens, totalCheckIns, students] = await Promise.all([
+        prisma.attendanceSessionCode.count({ where: { attendanceSessionId: session.id } }),
+        prisma.attendance.count({ where: { attendanceSessionId: session.id, checkIn: { not: null } } }),
+        prisma.attendance.groupBy({ by: ['userId'], where: { attendanceSessionId: session.id } }),
+    ]);
+
+    return {
+        sessionId: session.id,
+        totalTokens,
+        totalCheckIns,
+        uniqueStudents: students.length,
+        sessionStart: session.startTime,
+        sessionEnd: session.endTime,
+        isActive: session.isActive,
+        courseId: session.courseId,
+    };
+};
 
-    // Get attendance records for this session
-    const { AttendanceModel } = require('./attendance.model');
+// Get the live roster of a session for the teacher's screen
+const getSessionRoster = async (sessionId: string, userId: string, role: string): Promise<IAttendanceSessionRoster> => {
+    const session = await AttendanceSessionModel.findById(sessionId);
+    if (!session) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Session not found');
+    }
 
-    // Count attendance by status for this session's course and date
-    const sessionDate = new Date(session.date);
-    const startOfDay = new Date(sessionDate.setHours(0, 0, 0, 0));
-    const endOfDay = new Date(sessionDate.setHours(23, 59, 59, 999));
+    if (session.teacherId !== userId && !['ADMIN', 'SUPER_ADMIN'].includes(role)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the session creator can view its roster');
+    }
 
-    // Get all attendance records for this course on this date
-    const attendanceRecords = await AttendanceModel.findMany({
-        courseId: session.courseId,
-        startDate: startOfDay.toISOString(),
-        endDate: endOfDay.toISOString(),
-        page: 1,
-        limit: 1000,
-    });
+    const [enrollments, records] = await Promise.all([
+        prisma.courseEnrollment.findMany({
+            where: { courseId: session.courseId },
+            include: { student: { select: { id: true, name: true, email: true } } },
+        }),
+        prisma.attendance.findMany({
+            where: { attendanceSessionId: session.id },
+            select: { userId: true, status: true, proxyFlagged: true },
+        }),
+    ]);
 
-    const attendances = attendanceRecords.data || [];
+    const recordedUserIds = new Set(records.map((record) => record.userId));
+    const notArrived = enrollments
+        .filter((enrollment) => !recordedUserIds.has(enrollment.studentId))
+        .map((enrollment) => enrollment.student);
+    const countStatus = (status: string) => records.filter((record) => record.status === status).length;
 
     return {
         sessionId: session.id,
-        totalTokens: 0, // QR tokens removed
-        totalCheckIns: attendances.length,
-        uniqueStudents: attendances.length,
-        sessionStart: session.startTime,
-        sessionEnd: session.endTime,
         isActive: session.isActive,
+        counts: {
+            enrolled: enrollments.length,
+            present: countStatus('PRESENT'),
+            late: countStatus('LATE'),
+            absent: countStatus('ABSENT'),
+            excused: countStatus('EXCUSED'),
+            partial: countStatus('PARTIAL'),
+            flagged: records.filter((record) => record.proxyFlagged).length,
+            notArrived: notArrived.length,
+        },
+        notArrived,
+    };
+};
+
+// Create ABSENT (or EXCUSED, for approved leave) records for enrolled students with no record for the session's class period
+const markAbsentees = async (session: IAttendanceSession): Promise<IEndedAttendanceSession['generatedRecords']> => {
+    const course = await prisma.course.findUnique({
+        where: { id: session.courseId },
+        select: { departmentId: true, batchId: true },
+    });
+    const calendar = await AcademicCalendarService.loadCalendar(course ?? {}, session.date, session.date);
+    const startOfDay = startOfZonedDay(session.date, calendar.timeZone);
+    const endOfDay = endOfZonedDay(session.date, calendar.timeZone);
+
+    // A class held on a day the institution is closed is extra, so missing it counts against nobody;
+    // make-up classes replace a cancelled one and are taken as usual
+    if (!session.makeUpClassId
+        && !AcademicCalendarService.isWorkingDay(AcademicCalendarService.getDayType(calendar, startOfDay))) {
+        return { absent: 0, excused: 0, total: 0 };
+    }
+
+    const periodKey = getPeriodKey({ attendanceSessionId: session.id, classScheduleId: session.classScheduleId });
+
+    const [enrollments, existingRecords] = await Promise.all([
+        prisma.courseEnrollment.findMany({
+            where: { courseId: session.courseId },
+            select: { studentId: true },
+        }),
+        // Records of other periods that day do not count; a mark taken for this period outside the session does
+        prisma.attendance.findMany({
+            where: {
+                courseId: session.courseId,
+                OR: [
+                    { attendanceSessionId: session.id },
+                    { date: startOfDay, periodKey },
+                ],
+            },
+            select: { userId: true },
+        }),
+    ]);
+
+    const recordedUserIds = new Set(existingRecords.map((record) => record.userId));
+    const missingUserIds = enrollments
+        .map((enrollment) => enrollment.studentId)
+        .filter((userId) => !recordedUserIds.has(userId));
+
+    if (missingUserIds.length === 0) {
+        return { absent: 0, excused: 0, total: 0 };
+    }
+
+    const approvedLeaves = await prisma.leaveRequest.findMany({
+        where: {
+            userId: { in: missingUserIds },
+            status: 'APPROVED',
+            startDate: { lte: endOfDay },
+            endDate: { gte: startOfDay },
+        },
+        select: { userId: true, reason: true },
+    });
+    const leaveByUserId = new Map(approvedLeaves.map((leave) => [leave.userId, leave]));
+
+    const buildRecord = (userId: string, status: 'ABSENT' | 'EXCUSED', notes: string) => ({
+        userId,
         courseId: session.courseId,
+        date: startOfDay,
+        status,
+        notes,
+        markedBy: session.teacherId,
+        attendanceSessionId: session.id,
+        classScheduleId: session.classScheduleId,
+        periodKey,
+    });
+
+    const [excused, absent] = await Promise.all([
+        prisma.attendance.createMany({
+            data: [...leaveByUserId.values()].map((leave) => buildRecord(leave.userId, 'EXCUSED', `Approved leave: ${leave.reason}`)),
+            skipDuplicates: true,
+        }),
+        prisma.attendance.createMany({
+            data: missingUserIds
+                .filter((userId) => !leaveByUserId.has(userId))
+                .map((userId) => buildRecord(userId, 'ABSENT', 'Auto-marked absent when session ended')),
+            skipDuplicates: true,
+        }),
+    ]);
+
+    AttendanceStreakService.checkStreaks(
+        session.courseId,
+        missingUserIds.filter((userId) => !leaveByUserId.has(userId))
+    );
+
+    return {
+        absent: absent.count,
+        excused: excused.count,
+        total: absent.count + excused.count,
     };
 };
 
-// End attendance session
-const endSession = async (sessionId: string, teacherId: string): Promise<IAttendanceSession> => {
+// End attendance session; only its creator or an admin may
+const endSession = async (sessionId: string, userId: string, role: string): Promise<IEndedAttendanceSession> => {
     const session = await AttendanceSessionModel.findById(sessionId);
     if (!session) {
         throw new AppError(StatusCodes.NOT_FOUND, 'Session not found');
     }
 
-    if (session.teacherId !== teacherId) {
+    if (session.teacherId !== userId && !['ADMIN', 'SUPER_ADMIN'].includes(role)) {
         throw new AppError(StatusCodes.FORBIDDEN, 'Only the session creator can end this session');
     }
 
@@ -112,14 +300,624 @@ const endSession = async (sessionId: string, teacherId: string): Promise<IAttend
         throw new AppError(StatusCodes.BAD_REQUEST, 'Session is already ended');
     }
 
+    return closeSession(sessionId);
+};
+
+// Close a session and generate records for students who never checked in
+const closeSession = async (sessionId: string, endTime: Date = new Date()): Promise<IEndedAttendanceSession> => {
     const result = await AttendanceSessionModel.update(sessionId, {
-        endTime: new Date(),
+        endTime,
         isActive: false,
     });
 
+    // A session can still be closed on a locked day, but its records are left as they are
+    const locked = await AttendanceLockService.isLocked(result.courseId, result.date);
+    if (!locked) {
+        await applyPresenceRule(result, endTime);
+    }
+
+    const autoMarkAbsent = await SettingsService.getBooleanSetting('attendance.autoMarkAbsent');
+    const generatedRecords = autoMarkAbsent && !locked
+        ? await markAbsentees(result)
+        : { absent: 0, excused: 0, total: 0 };
+
+    AttendanceSessionEvents.publish(sessionId, { type: 'session-ended', sessionId });
+
+    return { ...result, generatedRecords };
+};
+
+// Resolves each department's time zone once per scheduler run
+const createTimeZoneCache = () => {
+    const timeZones = new Map<string, Promise<string>>();
+    return (departmentId: string | null | undefined): Promise<string> => {
+        const key = departmentId ?? '';
+        if (!timeZones.has(key)) {
+            timeZones.set(key, AcademicCalendarService.getTimeZone(departmentId));
+        }
+        return timeZones.get(key) as Promise<string>;
+    };
+};
+
+/**
+ * Open a session for every active class schedule slot that is currently in progress, in its department's time zone.
+ * Slots of courses whose academic calendar has no regular classes today (non-working days, holidays, breaks and
+ * exam periods), cancelled classes, inactive courses and slots the teacher already covered with a session are skipped.
+ */
+const openScheduledSessions = async (now: Date = new Date()): Promise<IAttendanceSession[]> => {
+    if (!(await SettingsService.getBooleanSetting('attendance.autoCreateSessions'))) {
+        return [];
+    }
+
+    const getTimeZone = createTimeZoneCache();
+
+    // Departments with a time zone of their own may already be on another weekday
+    const departmentZones = await prisma.department.findMany({
+        where: { timezone: { not: null } },
+        select: { id: true },
+    });
+    const weekdays = new Set<number>();
+    for (const departmentId of [null, ...departmentZones.map((department) => department.id)]) {
+        weekdays.add(getZonedWeekday(now, await getTimeZone(departmentId)));
+    }
+
+    const schedules = await prisma.classSchedule.findMany({
+        where: {
+            dayOfWeek: { in: [...weekdays] },
+            isActive: true,
+            course: { isActive: true },
+        },
+        include: { course: { select: { teacherId: true, departmentId: true, batchId: true } } },
+    });
+
+    // Cancellations are looked up once per day, and courses of the same department and batch share a calendar
+    const cancellations = new Map<number, Set<string>>();
+    const isCancelled = async (scheduleId: string, today: Date) => {
+        let cancelledScheduleIds = cancellations.get(today.getTime());
+        if (!cancelledScheduleIds) {
+            cancelledScheduleIds = await AttendanceCancellationService.getCancelledScheduleIds(today);
+            cancellations.set(today.getTime(), cancelledScheduleIds);
+        }
+        return cancelledScheduleIds.has(scheduleId);
+    };
+
+    const calendars = new Map<string, LoadedCalendar>();
+    const isTeachingDay = async (scope: { departmentId: string | null; batchId: string | null }, today: Date) => {
+        const key = `${scope.departmentId}:${scope.batchId}`;
+        let calendar = calendars.get(key);
+        if (!calendar) {
+            calendar = await AcademicCalendarService.loadCalendar(scope, today, today);
+            calendars.set(key, calendar);
+        }
+        return AcademicCalendarService.isTeachingDay(AcademicCalendarService.getDayType(calendar, today));
+    };
+
+    const opened: IAttendanceSession[] = [];
+
+    for (const schedule of schedules) {
+        const teacherId = schedule.teacherId || schedule.course?.teacherId;
+        if (!schedule.courseId || !schedule.course || !teacherId) {
+            continue;
+        }
+
+        const timeZone = await getTimeZone(schedule.course.departmentId);
+        if (getZonedWeekday(now, timeZone) !== schedule.dayOfWeek) {
+            continue;
+        }
+
+        const today = startOfZonedDay(now, timeZone);
+        const startTime = atZonedTime(today, schedule.startTime, timeZone);
+        const endTime = atZonedTime(today, schedule.endTime, timeZone);
+        if (now < startTime || now >= endTime) {
+            continue;
+        }
+
+        if (await isCancelled(schedule.id, today) || !(await isTeachingDay(schedule.course, today))) {
+            continue;
+        }
+
+        // A session already opened for this slot, or any session of the course running during it, covers the class
+        const existing = await prisma.attendanceSession.findFirst({
+            where: {
+                courseId: schedule.courseId,
+                startTime: { gte: today, lt: endTime },
+                OR: [
+                    { classScheduleId: schedule.id },
+                    { endTime: null },
+                    { endTime: { gt: startTime } },
+                ],
+            },
+        });
+        if (existing) {
+            continue;
+        }
+
+        const session = await AttendanceSessionModel.create({
+            courseId: schedule.courseId,
+            teacherId,
+            date: today,
+            startTime,
+            location: schedule.room,
+            classScheduleId: schedule.id,
+            latitude: schedule.roomLatitude,
+            longitude: schedule.roomLongitude,
+            geofenceRadius: schedule.roomGeofenceRadius,
+            autoGenerated: true,
+        });
+
+        opened.push(session);
+    }
+
+    return opened;
+};
+
+/**
+ * Open a session for every make-up class that is currently in progress and has none yet.
+ * Make-up classes are scheduled deliberately, so they run on holidays too.
+ */
+const openMakeUpSessions = async (now: Date = new Date()): Promise<IAttendanceSession[]> => {
+    if (!(await SettingsService.getBooleanSetting('attendance.autoCreateSessions'))) {
+        return [];
+    }
+
+    const getTimeZone = createTimeZoneCache();
+
+    // Make-up classes are stored against midnight in their course's time zone, which began within the last two days
+    const since = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
+    const makeUpClasses = await prisma.makeUpClass.findMany({
+        where: { date: { gt: since, lte: now }, sessions: { none: {} } },
+        include: {
+            cancellation: {
+                include: {
+                    classSchedule: {
+                        include: { course: { select: { teacherId: true, isActive: true, departmentId: true } } },
+                    },
+                },
+            },
+        },
+    });
+
+    const opened: IAttendanceSession[] = [];
+
+    for (const makeUpClass of makeUpClasses) {
+        const schedule = makeUpClass.cancellation.classSchedule;
+        const teacherId = schedule.teacherId || schedule.course?.teacherId;
+        if (!schedule.courseId || !teacherId || !schedule.course?.isActive) {
+            continue;
+        }
+
+        const timeZone = await getTimeZone(schedule.course.departmentId);
+        const today = makeUpClass.date;
+        const startTime = atZonedTime(today, makeUpClass.startTime, timeZone);
+        const endTime = atZonedTime(today, makeUpClass.endTime, timeZone);
+        if (now < startTime || now >= endTime) {
+            continue;
+        }
+
+        // The slot's geofence only applies when the make-up class is held in the same room
+        const sameRoom = !makeUpClass.room || makeUpClass.room === schedule.room;
+
+        const session = await AttendanceSessionModel.create({
+            courseId: schedule.courseId,
+            teacherId,
+            date: today,
+            startTime,
+            location: makeUpClass.room || schedule.room,
+            makeUpClassId: makeUpClass.id,
+            latitude: sameRoom ? schedule.roomLatitude : null,
+            longitude: sameRoom ? schedule.roomLongitude : null,
+            geofenceRadius: sameRoom ? schedule.roomGeofenceRadius : null,
+            autoGenerated: true,
+        });
+
+        opened.push(session);
+    }
+
+    return opened;
+};
+
+// Close scheduler-opened sessions whose class schedule slot or make-up class has ended
+const closeScheduledSessions = async (now: Date = new Date()): Promise<IEndedAttendanceSession[]> => {
+    const sessions = await prisma.attendanceSession.findMany({
+        where: { isActive: true, autoGenerated: true },
+        include: { classSchedule: true, makeUpClass: true, course: { select: { departmentId: true } } },
+    });
+
+    const getTimeZone = createTimeZoneCache();
+    const closed: IEndedAttendanceSession[] = [];
+
+    for (const session of sessions) {
+        const slot = session.makeUpClass ?? session.classSchedule;
+        const endTime = slot
+            ? atZonedTime(session.date, slot.endTime, await getTimeZone(session.course.departmentId))
+            : now;
+
+        if (now >= endTime) {
+            closed.push(await closeSession(session.id, endTime));
+        }
+    }
+
+    return closed;
+};
+
+// Get the current check-in code for a session, issuing a new one once the previous code expires
+const getSessionCode = async (sessionId: string, userId: string, role: string): Promise<IAttendanceSessionCode> => {
+    const session = await AttendanceSessionModel.findById(sessionId);
+    if (!session) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Session not found');
+    }
+
+    if (session.teacherId !== userId && !['ADMIN', 'SUPER_ADMIN'].includes(role)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the session creator can view its check-in code');
+    }
+
+    if (!session.isActive) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Session is already ended');
+    }
+
+    const currentCode = await AttendanceSessionModel.findCurrentCode(sessionId);
+    if (currentCode) {
+        return currentCode;
+    }
+
+    // Codes must be unique within a session so an old code can never become valid again
+    let code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    while (await AttendanceSessionModel.findCode(sessionId, code)) {
+        code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    }
+
+    const ttlSeconds = await SettingsService.getNumberSetting('attendance.checkInCodeTtl');
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    return AttendanceSessionModel.createCode(sessionId, code, expiresAt);
+};
+
+// Check the device location against the session geofence when attendance.requireLocation is on
+const checkLocation = async (session: IAttendanceSession, payload: ISessionCheckIn) => {
+    const requireLocation = await SettingsService.getBooleanSetting('attendance.requireLocation');
+    const hasLocation = payload.latitude !== undefined && payload.longitude !== undefined;
+
+    if (!hasLocation) {
+        if (requireLocation) {
+            throw new AppError(StatusCodes.BAD_REQUEST, 'Device location is required to check in');
+        }
+        return {};
+    }
+
+    const location = {
+        checkInLatitude: payload.latitude,
+        checkInLongitude: payload.longitude,
+        locationAccuracy: payload.accuracy,
+    };
+
+    if (session.latitude == null || session.longitude == null) {
+        return location;
+    }
+
+    const locationDistance = Math.round(
+        geoDistance(session.latitude, session.longitude, payload.latitude as number, payload.longitude as number)
+    );
+    const radius = session.geofenceRadius ?? await SettingsService.getNumberSetting('attendance.geofenceRadius');
+
+    if (!requireLocation || locationDistance <= radius) {
+        return { ...location, locationDistance };
+    }
+
+    const outOfRangeAction = await SettingsService.getSetting('attendance.outOfRangeAction');
+    if (outOfRangeAction !== 'FLAG') {
+        throw new AppError(
+            StatusCodes.FORBIDDEN,
+            `You are ${locationDistance}m from the class location; check-ins must be within ${radius}m`
+        );
+    }
+
+    return { ...location, locationDistance, locationFlagged: true };
+};
+
+// Check a student in to an active session using the session's current code
+const checkIn = async (payload: ISessionCheckIn): Promise<IAttendance> => {
+    const session = await AttendanceSessionModel.findById(payload.sessionId);
+    if (!session) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Session not found');
+    }
+
+    if (!session.isActive) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Session is no longer accepting check-ins');
+    }
+
+    const enrollment = await prisma.courseEnrollment.findUnique({
+        where: {
+            studentId_courseId: {
+                studentId: payload.userId,
+                courseId: session.courseId,
+            },
+        },
+    });
+    if (!enrollment) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'You are not enrolled in this course');
+    }
+
+    await deviceServices.assertTrustedDevice(payload.userId, payload.deviceFingerprint);
+
+    const checkInCode = await AttendanceSessionModel.findCode(session.id, payload.code);
+    if (!checkInCode) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Invalid check-in code');
+    }
+
+    if (checkInCode.expiresAt <= new Date()) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Check-in code has expired');
+    }
+
+    const existingCheckIn = await AttendanceModel.findBySessionUser(session.id, payload.userId);
+    if (existingCheckIn) {
+        throw new AppError(StatusCodes.CONFLICT, 'You have already checked in to this session');
+    }
+
+    await AttendanceLockService.assertNotLocked(session.courseId, session.date);
+
+    const location = await checkLocation(session, payload);
+
+    const attendanceDate = startOfZonedDay(session.date, await AcademicCalendarService.getCourseTimeZone(session.courseId));
+
+    // The session's schedule slot may already have been marked by hand
+    const periodRecord = await AttendanceModel.findByUserCourseDate(
+        payload.userId,
+        session.courseId,
+        attendanceDate,
+        getPeriodKey({ attendanceSessionId: session.id, classScheduleId: session.classScheduleId })
+    );
+    if (periodRecord) {
+        throw new AppError(StatusCodes.CONFLICT, 'Your attendance is already recorded for this class period');
+    }
+
+    const checkInTime = new Date();
+    const status = await attendanceServices.resolveAttendanceStatus({
+        courseId: session.courseId,
+        checkIn: checkInTime,
+        sessionStart: session.startTime,
+    });
+
+    const attendance = await AttendanceModel.create({
+        userId: payload.userId,
+        courseId: session.courseId,
+        date: attendanceDate,
+        status,
+        checkIn: checkInTime,
+        attendanceSessionId: session.id,
+        classScheduleId: session.classScheduleId ?? undefined,
+        ...location,
+        checkInIp: payload.ipAddress,
+        checkInUserAgent: payload.userAgent,
+        deviceFingerprint: payload.deviceFingerprint,
+    });
+
+    const proxyFlagged = await AttendanceAnomalyService.detectProxyCheckIn(attendance);
+    const result = { ...attendance, proxyFlagged } as IAttendance;
+
+    AttendanceSessionEvents.publish(session.id, { type: 'check-in', attendance: result });
+
+    return result;
+};
+
+// Approve or reject a check-in that was flagged as outside the session geofence
+const reviewLocation = async (payload: ILocationReview): Promise<IAttendance> => {
+    const attendance = await prisma.attendance.findUnique({
+        where: { id: payload.attendanceId },
+        include: { attendanceSession: true },
+    });
+    if (!attendance) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Attendance record not found');
+    }
+
+    if (!attendance.locationFlagged) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Attendance record is not flagged for location review');
+    }
+
+    if (attendance.attendanceSession?.teacherId !== payload.reviewerId && !['ADMIN', 'SUPER_ADMIN'].includes(payload.role)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the session creator can review this check-in');
+    }
+
+    await AttendanceLockService.assertNotLocked(attendance.courseId, attendance.date);
+
+    const rejectionNote = `Check-in rejected: ${attendance.locationDistance}m outside the class location`;
+    const result = payload.approved
+        ? await prisma.attendance.update({
+            where: { id: attendance.id },
+            data: { locationFlagged: false, markedBy: payload.reviewerId },
+        })
+        : await AttendanceModel.update(
+            attendance.id,
+            {
+                status: 'ABSENT',
+                notes: rejectionNote,
+                markedBy: payload.reviewerId,
+                locationFlagged: false,
+            },
+            {
+                changedBy: payload.reviewerId,
+                previousStatus: attendance.status,
+                changes: {
+                    status: { from: attendance.status, to: 'ABSENT' },
+                    notes: { from: attendance.notes, to: rejectionNote },
+                },
+                reason: 'Check-in location rejected',
+            }
+        );
+
+    if (attendance.attendanceSessionId) {
+        AttendanceSessionEvents.publish(attendance.attendanceSessionId, { type: 'attendance-updated', attendanceId: attendance.id });
+    }
+
+    if (!payload.approved) {
+        AttendanceStreakService.checkStreaks(attendance.courseId, [attendance.userId]);
+    }
+
+    return result as IAttendance;
+};
+
+// When a session ends: its recorded end, else the end of its make-up class or class schedule slot
+const getSessionEnd = async (session: IAttendanceSession): Promise<Date | null> => {
+    if (session.endTime) {
+        return new Date(session.endTime);
+    }
+
+    if (session.makeUpClassId) {
+        const makeUpClass = await prisma.makeUpClass.findUnique({
+            where: { id: session.makeUpClassId },
+        });
+
+        return makeUpClass
+            ? atZonedTime(session.date, makeUpClass.endTime, await AcademicCalendarService.getCourseTimeZone(session.courseId))
+            : null;
+    }
+
+    if (!session.classScheduleId) {
+        return null;
+    }
+
+    const schedule = await prisma.classSchedule.findUnique({
+        where: { id: session.classScheduleId },
+    });
+
+    return schedule
+        ? atZonedTime(session.date, schedule.endTime, await AcademicCalendarService.getCourseTimeZone(session.courseId))
+        : null;
+};
+
+/**
+ * Minutes a student spent in the session, and the status the course's minimum presence rule gives the record.
+ * Only PRESENT and LATE records are downgraded, and only once the session length is known.
+ */
+const evaluatePresence = async (
+    record: { courseId: string; status: AttendanceStatus; checkIn: Date; checkOut: Date },
+    sessionStart: Date,
+    sessionEnd: Date | null
+): Promise<{ minutesAttended: number; status: AttendanceStatus }> => {
+    const from = record.checkIn > sessionStart ? record.checkIn : sessionStart;
+    const to = sessionEnd && record.checkOut > sessionEnd ? sessionEnd : record.checkOut;
+    const minutesAttended = Math.max(0, Math.round((to.getTime() - from.getTime()) / 60000));
+
+    const sessionMinutes = sessionEnd ? (sessionEnd.getTime() - new Date(sessionStart).getTime()) / 60000 : 0;
+    if (sessionMinutes <= 0 || !['PRESENT', 'LATE'].includes(record.status)) {
+        return { minutesAttended, status: record.status };
+    }
+
+    const course = await prisma.course.findUnique({
+        where: { id: record.courseId },
+        select: { minPresencePercent: true, earlyLeaveStatus: true },
+    });
+    const minPresencePercent = course?.minPresencePercent
+        ?? await SettingsService.getNumberSetting('attendance.minPresencePercent');
+
+    if (minutesAttended * 100 >= minPresencePercent * sessionMinutes) {
+        return { minutesAttended, status: record.status };
+    }
+
+    const earlyLeaveStatus = course?.earlyLeaveStatus
+        ?? String(await SettingsService.getSetting('attendance.earlyLeaveStatus')) as AttendanceStatus;
+
+    return { minutesAttended, status: earlyLeaveStatus };
+};
+
+// Save the attended minutes and status, keeping a revision when the status is downgraded
+const savePresence = async (
+    attendance: { id: string; userId: string; courseId: string; status: AttendanceStatus },
+    update: { checkOut?: Date; minutesAttended: number; status: AttendanceStatus },
+    changedBy: string
+) => {
+    const result = await AttendanceModel.update(
+        attendance.id,
+        update,
+        update.status !== attendance.status
+            ? {
+                changedBy,
+                previousStatus: attendance.status,
+                changes: { status: { from: attendance.status, to: update.status } },
+                reason: `Left after ${update.minutesAttended} minutes, before the course's minimum presence`,
+            }
+            : undefined
+    );
+
+    if (update.status === 'ABSENT' && attendance.status !== 'ABSENT') {
+        AttendanceStreakService.checkStreaks(attendance.courseId, [attendance.userId]);
+    }
+
     return result;
 };
 
+// Apply the minimum presence rule to everyone who checked in, now that the session length is known
+const applyPresenceRule = async (session: IAttendanceSession, sessionEnd: Date): Promise<void> => {
+    const records = await prisma.attendance.findMany({
+        where: { attendanceSessionId: session.id, checkIn: { not: null } },
+    });
+
+    for (const record of records) {
+        // Students who never checked out are counted until the end of the session
+        const presence = await evaluatePresence(
+            { ...record, checkIn: record.checkIn as Date, checkOut: record.checkOut ?? sessionEnd },
+            session.startTime,
+            sessionEnd
+        );
+
+        if (presence.status !== record.status || presence.minutesAttended !== record.minutesAttended) {
+            await savePresence(record, presence, session.teacherId);
+        }
+    }
+};
+
+/**
+ * Record a check-out against a session.
+ * Students check themselves out while the session runs; the session teacher or an admin can check out any student.
+ */
+const checkOut = async (payload: ISessionCheckOut): Promise<IAttendance> => {
+    const session = await AttendanceSessionModel.findById(payload.sessionId);
+    if (!session) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Session not found');
+    }
+
+    const isStudent = payload.role === 'STUDENT';
+    if (isStudent && !session.isActive) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Session has already ended');
+    }
+
+    if (!isStudent && session.teacherId !== payload.actorId && !['ADMIN', 'SUPER_ADMIN'].includes(payload.role)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the session creator can check students out');
+    }
+
+    const userId = isStudent ? payload.actorId : payload.userId;
+    if (!userId) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Student ID is required');
+    }
+
+    const attendance = await AttendanceModel.findBySessionUser(session.id, userId);
+    if (!attendance?.checkIn) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Student has not checked in to this session');
+    }
+
+    if (attendance.checkOut) {
+        throw new AppError(StatusCodes.CONFLICT, 'Student has already checked out of this session');
+    }
+
+    // Teachers may record when the student actually left; students always check out now
+    const checkOutTime = !isStudent && payload.checkOut ? new Date(payload.checkOut) : new Date();
+    if (checkOutTime < attendance.checkIn) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Check-out time must be after check-in');
+    }
+
+    await AttendanceLockService.assertNotLocked(attendance.courseId, attendance.date);
+
+    const presence = await evaluatePresence(
+        { ...attendance, checkIn: attendance.checkIn, checkOut: checkOutTime },
+        session.startTime,
+        await getSessionEnd(session)
+    );
+
+    const result = await savePresence(attendance, { checkOut: checkOutTime, ...presence }, payload.actorId);
+
+    AttendanceSessionEvents.publish(session.id, { type: 'attendance-updated', attendanceId: attendance.id });
+
+    return result as IAttendance;
+};
+
 // Get attendance sessions with filters
 const getAttendanceSessions = async (filters: IAttendanceSessionFilters) => {
     const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc' } = filters;
@@ -146,7 +944,15 @@ export const AttendanceSessionService = {
     createAttendanceSession,
     getActiveSession,
     getSessionStats,
+    getSessionRoster,
     endSession,
+    openScheduledSessions,
+    openMakeUpSessions,
+    closeScheduledSessions,
+    getSessionCode,
+    checkIn,
+    checkOut,
+    reviewLocation,
     getAttendanceSessions,
     getAttendanceSessionById,
 };
@@ -0,0 +1,217 @@
+import PDFDocument from 'pdfkit';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import { SettingsService } from '../settings/settings.service';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { formatZonedDate, toZonedDateKey, toZonedTimeString } from '../../utils/zonedTime';
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 22;
+
+// Roll-call table layout: column title, width in points
+const COLUMNS: [string, number][] = [
+    ['#', 25],
+    ['Student ID', 80],
+    ['Name', 150],
+    ['Status', 70],
+    ['Check-in', 60],
+    ['Signature', 130],
+];
+
+// Collect a finished PDF document into a buffer
+const toBuffer = (doc: PDFKit.PDFDocument): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+        doc.end();
+    });
+
+const drawTableHeader = (doc: PDFKit.PDFDocument) => {
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+
+    doc.font('Helvetica-Bold').fontSize(9);
+    COLUMNS.forEach(([title, width]) => {
+        doc.text(title, x + 3, y + 6, { width: width - 6, lineBreak: false });
+        x += width;
+    });
+    doc.moveTo(PAGE_MARGIN, y + ROW_HEIGHT).lineTo(x, y + ROW_HEIGHT).stroke();
+    doc.font('Helvetica');
+    doc.y = y + ROW_HEIGHT;
+};
+
+/**
+ * Generate a printable roll-call sheet for a session: course and session details,
+ * every enrolled student's status and check-in time, and signature lines
+ */
+const generateRollCallSheet = async (sessionId: string, userId: string, role: string) => {
+    const session = await prisma.attendanceSession.findUnique({
+        where: { id: sessionId },
+        include: {
+            course: { select: { title: true, code: true, teacherId: true, departmentId: true } },
+            teacher: { select: { name: true } },
+            classSchedule: { select: { room: true } },
+        },
+    });
+
+    if (!session) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Session not found');
+    }
+
+    if (
+        session.teacherId !== userId
+        && session.course.teacherId !== userId
+        && !['ADMIN', 'SUPER_ADMIN'].includes(role)
+    ) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the session teacher or an admin can print its roll call');
+    }
+
+    const [enrollments, records, institution, timeZone] = await Promise.all([
+        prisma.courseEnrollment.findMany({
+            where: { courseId: session.courseId },
+            include: {
+                student: {
+                    select: { id: true, name: true, studentProfile: { select: { studentId: true } } },
+                },
+            },
+        }),
+        prisma.attendance.findMany({
+            where: { attendanceSessionId: session.id },
+            include: {
+                user: {
+                    select: { id: true, name: true, studentProfile: { select: { studentId: true } } },
+                },
+            },
+        }),
+        Promise.all(
+            ['institution.name', 'institution.address', 'institution.phone', 'institution.email', 'institution.website']
+                .map((key) => SettingsService.getSetting(key))
+        ),
+        AcademicCalendarService.getTimeZone(session.course.departmentId),
+    ]);
+
+    // Enrolled students first, then anyone recorded for the session who has since left the course
+    const recordsByUser = new Map(records.map((record) => [record.userId, record]));
+    const students = new Map(enrollments.map((enrollment) => [enrollment.student.id, enrollment.student]));
+    records.forEach((record) => {
+        if (!students.has(record.userId)) students.set(record.userId, record.user);
+    });
+
+    const rows = [...students.values()]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((student) => {
+            const record = recordsByUser.get(student.id);
+            let status = session.isActive ? 'Not arrived' : 'Not recorded';
+            if (record) {
+                status = record.proxyFlagged ? `${record.status} (flagged)` : record.status;
+            }
+
+            return {
+                studentId: student.studentProfile?.studentId ?? '',
+                name: student.name,
+                status,
+                checkIn: record?.checkIn ? toZonedTimeString(record.checkIn, timeZone) : '',
+            };
+        });
+
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, bufferPages: true });
+    const [institutionName, address, phone, email, website] = institution;
+
+    // Institution branding
+    doc.font('Helvetica-Bold').fontSize(16).text(String(institutionName || ''), { align: 'center' });
+    doc.font('Helvetica').fontSize(9);
+    if (address) doc.text(String(address), { align: 'center' });
+    const contact = [phone, email, website].filter(Boolean).join('  |  ');
+    if (contact) doc.text(contact, { align: 'center' });
+
+    doc.moveDown();
+    doc.font('Helvetica-Bold').fontSize(13).text('Attendance Roll-Call Sheet', { align: 'center' });
+    doc.moveDown(0.5);
+
+    // Session details
+    const details: [string, string][] = [
+        ['Course', `${session.course.code} - ${session.course.title}`],
+        ['Teacher', session.teacher.name],
+        ['Location', session.location || session.classSchedule?.room || 'Not specified'],
+        ['Date', formatZonedDate(session.date, timeZone)],
+        ['Start time', toZonedTimeString(session.startTime, timeZone)],
+        ['End time', session.endTime ? toZonedTimeString(session.endTime, timeZone) : 'In progress'],
+        ['Session ID', session.id],
+    ];
+    doc.fontSize(10);
+    details.forEach(([label, value]) => {
+        doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(value);
+    });
+    doc.moveDown();
+
+    // Roll-call table, repeating the header on every page
+    const bottom = doc.page.height - PAGE_MARGIN - ROW_HEIGHT;
+    drawTableHeader(doc);
+    rows.forEach((row, index) => {
+        if (doc.y > bottom) {
+            doc.addPage();
+            drawTableHeader(doc);
+        }
+
+        const y = doc.y;
+        const cells = [String(index + 1), row.studentId, row.name, row.status, row.checkIn, ''];
+        let x = PAGE_MARGIN;
+
+        doc.fontSize(9);
+        cells.forEach((cell, cellIndex) => {
+            const width = COLUMNS[cellIndex][1];
+            doc.text(cell, x + 3, y + 6, { width: width - 6, height: ROW_HEIGHT - 6, lineBreak: false, ellipsis: true });
+            x += width;
+        });
+        doc.moveTo(PAGE_MARGIN, y + ROW_HEIGHT).lineTo(x, y + ROW_HEIGHT).lineWidth(0.5).stroke();
+        doc.y = y + ROW_HEIGHT;
+    });
+
+    const count = (status: string) => records.filter((record) => record.status === status).length;
+    doc.x = PAGE_MARGIN;
+    doc.moveDown();
+    doc.fontSize(10).text(
+        `Enrolled: ${enrollments.length}   Present: ${count('PRESENT')}   Late: ${count('LATE')}   `
+        + `Partial: ${count('PARTIAL')}   Excused: ${count('EXCUSED')}   Absent: ${count('ABSENT')}`
+    );
+
+    // Signature lines; keep them together on one page
+    if (doc.y > doc.page.height - PAGE_MARGIN - 120) {
+        doc.addPage();
+    }
+    doc.moveDown(3);
+    const signatureY = doc.y;
+    const signatureWidth = 150;
+    ['Teacher', 'Invigilator / Verifier', 'Date'].forEach((label, index) => {
+        const x = PAGE_MARGIN + index * (signatureWidth + 25);
+        doc.moveTo(x, signatureY).lineTo(x + signatureWidth, signatureY).lineWidth(0.5).stroke();
+        doc.fontSize(9).text(label, x, signatureY + 4, { width: signatureWidth, align: 'center' });
+    });
+
+    // Page footers
+    const generatedAt = new Date();
+    const range = doc.bufferedPageRange();
+    for (let page = range.start; page < range.start + range.count; page++) {
+        doc.switchToPage(page);
+        doc.fontSize(8).text(
+            `Generated ${formatZonedDate(generatedAt, timeZone)} ${toZonedTimeString(generatedAt, timeZone)}  -  Page ${page - range.start + 1} of ${range.count}`,
+            PAGE_MARGIN,
+            doc.page.height - PAGE_MARGIN + 10,
+            { width: doc.page.width - PAGE_MARGIN * 2, align: 'center', lineBreak: false }
+        );
+    }
+
+    const buffer = await toBuffer(doc);
+
+    return {
+        buffer,
+        fileName: `${session.course.code}-roll-call-${toZonedDateKey(session.date, timeZone)}.pdf`,
+    };
+};
+
+export const AttendanceSessionSheetService = {
+    generateRollCallSheet,
+};
@@ -0,0 +1,260 @@
+import { AbsenceEscalationLevel, AttendanceStatus, Prisma } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { SettingsService } from '../settings/settings.service';
+import { notificationServices } from '../notification/notification.service';
+import { sendAbsenceStreakEmail } from '../../utils/emailTemplates';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { addZonedDays, formatZonedDate, startOfZonedDay } from '../../utils/zonedTime';
+import logError from '../../utils/logError';
+
+// Steps in the order a growing streak reaches them
+const ESCALATION_LEVELS: AbsenceEscalationLevel[] = ['STUDENT', 'TEACHER', 'DEPARTMENT_HEAD'];
+
+// Marks that break a streak; EXCUSED marks neither break nor extend one
+const ATTENDED_STATUSES: AttendanceStatus[] = ['PRESENT', 'LATE', 'PARTIAL'];
+
+type AbsenceStreak = {
+    scope: string;
+    courseId: string | null;
+    start: Date;
+    length: number;
+    courseIds: string[];
+};
+
+// Consecutive absences in one course since the student last attended it
+const getCourseStreak = async (userId: string, courseId: string): Promise<AbsenceStreak | null> => {
+    const lastAttended = await prisma.attendance.findFirst({
+        where: { userId, courseId, status: { in: ATTENDED_STATUSES } },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        select: { date: true, createdAt: true },
+    });
+
+    const where: Prisma.AttendanceWhereInput = { userId, courseId, status: 'ABSENT' };
+    if (lastAttended) {
+        where.OR = [
+            { date: { gt: lastAttended.date } },
+            { date: lastAttended.date, createdAt: { gt: lastAttended.createdAt } },
+        ];
+    }
+
+    const absences = await prisma.attendance.findMany({
+        where,
+        orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+        select: { date: true },
+    });
+
+    if (absences.length === 0) {
+        return null;
+    }
+
+    return {
+        scope: `course:${courseId}`,
+        courseId,
+        start: absences[0].date,
+        length: absences.length,
+        courseIds: [courseId],
+    };
+};
+
+// Consecutive school days on which the student missed every class they had, across all courses,
+// with days counted in the student's time zone
+const getOverallStreak = async (userId: string): Promise<AbsenceStreak | null> => {
+    const timeZone = await AcademicCalendarService.getUserTimeZone(userId);
+
+    const lastAttended = await prisma.attendance.findFirst({
+        where: { userId, status: { in: ATTENDED_STATUSES } },
+        orderBy: { date: 'desc' },
+        select: { date: true },
+    });
+
+    const where: Prisma.AttendanceWhereInput = { userId, status: 'ABSENT' };
+    if (lastAttended) {
+        where.date = { gte: addZonedDays(lastAttended.date, 1, timeZone) };
+    }
+
+    const absences = await prisma.attendance.findMany({
+        where,
+        orderBy: { date: 'asc' },
+        select: { date: true, courseId: true },
+    });
+
+    if (absences.length === 0) {
+        return null;
+    }
+
+    // Days with records but no ABSENT mark only had EXCUSED ones, so they are skipped
+    const days = new Set(absences.map((absence) => startOfZonedDay(absence.date, timeZone).getTime()));
+
+    return {
+        scope: 'overall',
+        courseId: null,
+        start: startOfZonedDay(absences[0].date, timeZone),
+        length: days.size,
+        courseIds: [...new Set(absences.map((absence) => absence.courseId))],
+    };
+};
+
+// Record an escalation step before taking it; null when it was already taken for this streak
+const claimStep = async (userId: string, streak: AbsenceStreak, level: AbsenceEscalationLevel): Promise<string | null> => {
+    try {
+        const alert = await prisma.absenceStreakAlert.create({
+            data: {
+                userId,
+                courseId: streak.courseId,
+                scope: streak.scope,
+                streakStart: streak.start,
+                streakLength: streak.length,
+                level,
+            },
+        });
+        return alert.id;
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return null;
+        }
+        throw error;
+    }
+};
+
+// Load the student, the courses in the streak, their teachers and the department head to alert
+const getStreakContacts = async (userId: string, streak: AbsenceStreak) => {
+    const [student, courses] = await Promise.all([
+        prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                name: true,
+                studentProfile: {
+                    select: { studentId: true, department: { select: { head: { select: { userId: true } } } } },
+                },
+            },
+        }),
+        prisma.course.findMany({
+            where: { id: { in: streak.courseIds } },
+            select: {
+                code: true,
+                title: true,
+                teacher: { select: { id: true, name: true, email: true } },
+                department: { select: { head: { select: { userId: true } } } },
+            },
+        }),
+    ]);
+
+    const teachers = new Map(
+        courses.flatMap((course) => (course.teacher ? [[course.teacher.id, course.teacher] as const] : []))
+    );
+
+    // A course streak goes to the course's department, an overall streak to the student's own
+    const headUserId = streak.courseId
+        ? courses[0]?.department?.head?.userId
+        : student?.studentProfile?.department?.head?.userId;
+
+    return {
+        studentName: student?.name ?? 'A student',
+        studentId: student?.studentProfile?.studentId ?? 'no student ID',
+        courses,
+        teachers: [...teachers.values()],
+        headUserId,
+    };
+};
+
+// Take one escalation step: the student is notified, then the teachers emailed, then the department head alerted
+const takeStep = async (userId: string, streak: AbsenceStreak, level: AbsenceEscalationLevel) => {
+    const contacts = await getStreakContacts(userId, streak);
+    const since = formatZonedDate(streak.start, await AcademicCalendarService.getUserTimeZone(userId));
+    const description = streak.courseId
+        ? `${streak.length} consecutive classes in ${contacts.courses[0]?.code} - ${contacts.courses[0]?.title}`
+        : `every class for ${streak.length} consecutive school days`;
+
+    if (level === 'STUDENT') {
+        await notificationServices.sendNotification({
+            recipientId: userId,
+            title: 'Consecutive absences',
+            message: `You have missed ${description} since ${since}. `
+                + 'Please attend your next classes or contact your teacher if something is keeping you away.',
+        });
+        return;
+    }
+
+    if (level === 'TEACHER') {
+        for (const teacher of contacts.teachers) {
+            await sendAbsenceStreakEmail(
+                teacher.email,
+                teacher.name,
+                contacts.studentName,
+                contacts.studentId,
+                description,
+                since
+            );
+        }
+        return;
+    }
+
+    if (contacts.headUserId) {
+        await notificationServices.sendNotification({
+            recipientId: contacts.headUserId,
+            title: 'Attendance alert: consecutive absences',
+            message: `${contacts.studentName} (${contacts.studentId}) has missed ${description} since ${since}. `
+                + 'The student has been notified and their teachers emailed.',
+            type: 'BOTH',
+        });
+    }
+};
+
+// Take every step the streak has reached and that has not been taken for it yet
+const escalate = async (userId: string, streak: AbsenceStreak, threshold: number, step: number) => {
+    for (const [index, level] of ESCALATION_LEVELS.entries()) {
+        if (streak.length < threshold + index * step) {
+            return;
+        }
+
+        const alertId = await claimStep(userId, streak, level);
+        if (!alertId) {
+            continue;
+        }
+
+        try {
+            await takeStep(userId, streak, level);
+        } catch (error) {
+            // Release the claim so the next check takes the step again
+            await prisma.absenceStreakAlert.delete({ where: { id: alertId } });
+            throw error;
+        }
+    }
+};
+
+/**
+ * Check the course and overall absence streaks of students just marked absent in a course,
+ * escalating any streak that has reached a threshold. Failures are logged rather than thrown,
+ * so alerting never fails the attendance write that triggered it.
+ */
+const checkStreaks = async (courseId: string, userIds: string[]): Promise<void> => {
+    if (userIds.length === 0) {
+        return;
+    }
+
+    try {
+        const [courseThreshold, overallThreshold, step] = await Promise.all([
+            SettingsService.getNumberSetting('attendance.courseStreakThreshold'),
+            SettingsService.getNumberSetting('attendance.overallStreakThreshold'),
+            SettingsService.getNumberSetting('attendance.streakEscalationStep'),
+        ]);
+
+        for (const userId of new Set(userIds)) {
+            if (courseThreshold > 0) {
+                const streak = await getCourseStreak(userId, courseId);
+                if (streak) await escalate(userId, streak, courseThreshold, step);
+            }
+
+            if (overallThreshold > 0) {
+                const streak = await getOverallStreak(userId);
+                if (streak) await escalate(userId, streak, overallThreshold, step);
+            }
+        }
+    } catch (error) {
+        logError('Failed to check absence streaks', error);
+    }
+};
+
+export const AttendanceStreakService = {
+    checkStreaks,
+};
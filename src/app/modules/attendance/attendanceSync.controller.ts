@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { AttendanceSyncService } from './attendanceSync.service';
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import { StatusCodes } from 'http-status-codes';
+
+// Apply attendance operations recorded on an offline device
+const syncAttendance = catchAsync(async (req: Request, res: Response) => {
+    const { lastSyncedAt, operations } = req.body;
+
+    const result = await AttendanceSyncService.syncAttendance({
+        lastSyncedAt,
+        operations,
+        submittedBy: req.user.id,
+        role: req.user.role,
+    });
+
+    sendResponse(res, {
+        statusCode: StatusCodes.OK,
+        message: 'Attendance sync processed',
+        data: result,
+    });
+});
+
+export const AttendanceSyncController = {
+    syncAttendance,
+};
@@ -0,0 +1,165 @@
+import { Prisma } from '@prisma/client';
+import { AttendanceModel, getPeriodKey } from './attendance.model';
+import { attendanceServices } from './attendance.service';
+import {
+    AttendanceSyncItemResult,
+    IAttendance,
+    IAttendanceSyncItem,
+    IAttendanceSyncOperation,
+    IAttendanceSyncRequest,
+    IAttendanceSyncResult,
+} from './attendance.interface';
+import prisma from '../../config/prisma';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { startOfZonedDay } from '../../utils/zonedTime';
+
+const toDate = (value?: Date | string) => (value ? new Date(value) : undefined);
+
+// Claim a client operation so a retried or concurrent upload can't apply it twice; null when it was already received
+const claimOperation = async (submittedBy: string, operation: IAttendanceSyncOperation) => {
+    try {
+        return await prisma.attendanceSyncOperation.create({
+            data: {
+                clientId: operation.clientId,
+                submittedBy,
+                deviceTimestamp: new Date(operation.deviceTimestamp),
+            },
+        });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return null;
+        }
+        throw error;
+    }
+};
+
+// Report an operation received before, with the current state of the record it produced
+const describeDuplicate = async (submittedBy: string, clientId: string): Promise<IAttendanceSyncItem> => {
+    const previous = await prisma.attendanceSyncOperation.findUnique({
+        where: { submittedBy_clientId: { submittedBy, clientId } },
+    });
+
+    const attendance = previous?.attendanceId
+        ? await AttendanceModel.findById(previous.attendanceId)
+        : null;
+
+    return {
+        clientId,
+        result: 'DUPLICATE',
+        attendance: attendance as IAttendance | null,
+        message: previous ? `Operation was already received (${previous.result})` : undefined,
+    };
+};
+
+/**
+ * Create the record, or update it unless it was changed on the server after the device last synced.
+ * Records written earlier in the same batch are not treated as server-side edits.
+ */
+const applyOperation = async (
+    operation: IAttendanceSyncOperation,
+    request: IAttendanceSyncRequest,
+    syncedIds: Set<string>
+): Promise<IAttendanceSyncItem> => {
+    const date = startOfZonedDay(operation.date, await AcademicCalendarService.getCourseTimeZone(operation.courseId));
+
+    const changes = {
+        status: operation.status,
+        checkIn: toDate(operation.checkIn),
+        checkOut: toDate(operation.checkOut),
+        notes: operation.notes,
+        overrideStatus: operation.overrideStatus,
+        markedBy: request.submittedBy,
+    };
+
+    const period = await attendanceServices.resolvePeriod(operation.courseId, operation);
+    const existing = await AttendanceModel.findByUserCourseDate(
+        operation.userId,
+        operation.courseId,
+        date,
+        getPeriodKey(period)
+    );
+
+    if (!existing) {
+        const attendance = await attendanceServices.recordAttendance({
+            ...changes,
+            ...period,
+            userId: operation.userId,
+            courseId: operation.courseId,
+            date,
+        });
+
+        return { clientId: operation.clientId, result: 'APPLIED', attendance };
+    }
+
+    const lastSyncedAt = toDate(request.lastSyncedAt);
+    if (!syncedIds.has(existing.id) && (!lastSyncedAt || existing.updatedAt > lastSyncedAt)) {
+        return {
+            clientId: operation.clientId,
+            result: 'CONFLICT',
+            attendance: existing as IAttendance,
+            message: 'Record was changed on the server since the last sync',
+        };
+    }
+
+    const attendance = await attendanceServices.updateAttendance(existing.id, changes, {
+        userId: request.submittedBy,
+        role: request.role,
+        reason: 'Offline sync',
+    });
+
+    return { clientId: operation.clientId, result: 'APPLIED', attendance };
+};
+
+/**
+ * Apply a batch of offline attendance operations in the order they were made on the device.
+ * Every operation is applied at most once; each gets its own result instead of failing the whole batch.
+ */
+const syncAttendance = async (request: IAttendanceSyncRequest): Promise<IAttendanceSyncResult> => {
+    const operations = [...request.operations].sort(
+        (a, b) => new Date(a.deviceTimestamp).getTime() - new Date(b.deviceTimestamp).getTime()
+    );
+
+    const syncedIds = new Set<string>();
+    const results: IAttendanceSyncItem[] = [];
+
+    for (const operation of operations) {
+        const claim = await claimOperation(request.submittedBy, operation);
+        if (!claim) {
+            results.push(await describeDuplicate(request.submittedBy, operation.clientId));
+            continue;
+        }
+
+        let item: IAttendanceSyncItem;
+        try {
+            item = await applyOperation(operation, request, syncedIds);
+        } catch (error) {
+            item = {
+                clientId: operation.clientId,
+                result: 'REJECTED',
+                message: error instanceof Error ? error.message : 'Operation could not be applied',
+            };
+        }
+
+        if (item.result === 'APPLIED' && item.attendance) {
+            syncedIds.add(item.attendance.id);
+        }
+
+        await prisma.attendanceSyncOperation.update({
+            where: { id: claim.id },
+            data: {
+                result: item.result as Exclude<AttendanceSyncItemResult, 'DUPLICATE'>,
+                attendanceId: item.attendance?.id,
+                message: item.message,
+            },
+        });
+
+        results.push(item);
+    }
+
+    // Taken after the batch so the device's next sync doesn't see its own writes as server-side edits
+    return { syncedAt: new Date(), results };
+};
+
+export const AttendanceSyncService = {
+    syncAttendance,
+};
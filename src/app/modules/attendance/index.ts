@@ -8,3 +8,19 @@ export { AttendanceSessionModel } from './attendanceSession.model';
 export * from './attendanceSession.service';
 export * from './attendanceSession.controller';
 export { default as attendanceSessionRoutes } from './attendanceSession.route';
+export * from './attendanceLock.service';
+export * from './attendanceLock.controller';
+export { AttendanceSessionScheduler } from './attendanceSession.scheduler';
+export * from './attendanceSync.service';
+export * from './attendanceSync.controller';
+export * from './attendanceAnomaly.service';
+export * from './attendanceAnomaly.controller';
+export * from './attendanceRegister.service';
+export * from './attendanceRegister.controller';
+export * from './attendanceSessionSheet.service';
+export * from './attendancePolicy.service';
+export * from './attendanceEligibility.service';
+export * from './attendanceEligibility.controller';
+export * from './attendanceStreak.service';
+export * from './attendanceCancellation.service';
+export * from './attendanceCancellation.controller';
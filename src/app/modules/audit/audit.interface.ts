@@ -23,6 +23,12 @@ export enum AuditAction {
   LEAVE_APPROVED = 'LEAVE_APPROVED',
   LEAVE_REJECTED = 'LEAVE_REJECTED',
   SETTINGS_CHANGED = 'SETTINGS_CHANGED',
+  DEVICE_REGISTERED = 'DEVICE_REGISTERED',
+  DEVICE_RESET_REQUESTED = 'DEVICE_RESET_REQUESTED',
+  DEVICE_RESET_APPROVED = 'DEVICE_RESET_APPROVED',
+  DEVICE_RESET_REJECTED = 'DEVICE_RESET_REJECTED',
+  CONDONATION_GRANTED = 'CONDONATION_GRANTED',
+  CONDONATION_REVOKED = 'CONDONATION_REVOKED',
 }
 
 export type AuditEntityType =
@@ -37,6 +43,7 @@ export type AuditEntityType =
   | 'Setting'
   | 'Notification'
   | 'Session'
+  | 'Device'
   | 'Import'
   | 'Export';
 
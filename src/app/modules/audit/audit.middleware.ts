@@ -73,6 +73,7 @@ const mapPathToEntity = (path: string): AuditEntityType => {
   if (path.includes('/settings')) return 'Setting';
   if (path.includes('/notifications')) return 'Notification';
   if (path.includes('/sessions')) return 'Session';
+  if (path.includes('/devices')) return 'Device';
   if (path.includes('/import')) return 'Import';
   if (path.includes('/export')) return 'Export';
   return 'User'; // Default
@@ -84,7 +84,7 @@ export const bulkDelete = catchAsync(async (req: Request, res: Response) => {
  * Bulk mark attendance
  */
 export const bulkMarkAttendance = catchAsync(async (req: Request, res: Response) => {
-  const { courseId, date, attendance } = req.body;
+  const { courseId, date, attendance, attendanceSessionId, classScheduleId, reason } = req.body;
 
   if (!courseId || !date || !attendance || !Array.isArray(attendance)) {
     return sendResponse(res, {
@@ -94,7 +94,10 @@ export const bulkMarkAttendance = catchAsync(async (req: Request, res: Response)
     });
   }
 
-  const result = await BulkService.bulkMarkAttendance({ courseId, date, attendance });
+  const result = await BulkService.bulkMarkAttendance(
+    { courseId, date, attendance, attendanceSessionId, classScheduleId },
+    { userId: req.user.id, role: req.user.role, reason }
+  );
 
   sendResponse(res, {
     statusCode: StatusCodes.OK,
@@ -72,9 +72,11 @@ export interface IBulkOperationResult {
 export interface IBulkMarkAttendanceRequest {
   courseId: string;
   date: string;
+  attendanceSessionId?: string;
+  classScheduleId?: string;
   attendance: Array<{
     studentId: string;
-    status: 'PRESENT' | 'ABSENT' | 'LATE' | 'EXCUSED';
+    status: 'PRESENT' | 'ABSENT' | 'LATE' | 'EXCUSED' | 'PARTIAL';
     notes?: string;
   }>;
 }
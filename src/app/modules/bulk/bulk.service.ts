@@ -16,6 +16,13 @@ import {
 import { hashInfo } from '../../utils/hashInfo';
 import AppError from '../../errors/AppError';
 import { StatusCodes } from 'http-status-codes';
+import { attendanceServices } from '../attendance/attendance.service';
+import { IAttendanceEditor } from '../attendance/attendance.interface';
+import { AttendanceLockService } from '../attendance/attendanceLock.service';
+import { AttendanceStreakService } from '../attendance/attendanceStreak.service';
+import { AttendanceCancellationService } from '../attendance/attendanceCancellation.service';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { startOfZonedDay } from '../../utils/zonedTime';
 
 /**
  * Bulk create users
@@ -276,13 +283,15 @@ const bulkDelete = async (
 };
 
 /**
- * Bulk mark attendance
+ * Bulk mark attendance; re-marking a recorded student is an edit and needs to be inside the editor's edit window
  */
 const bulkMarkAttendance = async (
-  data: IBulkMarkAttendanceRequest
+  data: IBulkMarkAttendanceRequest,
+  editor: IAttendanceEditor
 ): Promise<IBulkOperationResult> => {
-  const { courseId, date, attendance } = data;
-  const attendanceDate = new Date(date);
+  const { courseId, date, attendance, attendanceSessionId, classScheduleId } = data;
+  const timeZone = await AcademicCalendarService.getCourseTimeZone(courseId);
+  const attendanceDate = startOfZonedDay(date, timeZone);
 
   const result = {
     total: attendance.length,
@@ -300,6 +309,11 @@ const bulkMarkAttendance = async (
     throw new AppError(StatusCodes.NOT_FOUND, 'Course not found');
   }
 
+  await AttendanceLockService.assertNotLocked(courseId, attendanceDate);
+  await AttendanceCancellationService.assertNotCancelled(classScheduleId, attendanceDate);
+
+  const absentUserIds: string[] = [];
+
   for (const record of attendance) {
     try {
       // Find student by studentId
@@ -316,27 +330,19 @@ const bulkMarkAttendance = async (
         continue;
       }
 
-      // Create or update attendance
-      await prisma.attendance.upsert({
-        where: {
-          userId_courseId_date: {
-            userId: student.userId,
-            courseId,
-            date: attendanceDate,
-          },
-        },
-        update: {
-          status: record.status,
-          notes: record.notes,
-        },
-        create: {
-          userId: student.userId,
-          courseId,
-          date: attendanceDate,
-          status: record.status,
-          notes: record.notes,
-        },
-      });
+      // Create the record, or edit an existing one within the edit window
+      await attendanceServices.markAttendances({
+        courseId,
+        date: attendanceDate,
+        attendanceSessionId,
+        classScheduleId,
+        attendances: [{ userId: student.userId, status: record.status, notes: record.notes }],
+        markedBy: editor.userId,
+      }, editor, timeZone);
+
+      if (record.status === 'ABSENT') {
+        absentUserIds.push(student.userId);
+      }
 
       result.success++;
     } catch (error: any) {
@@ -348,6 +354,8 @@ const bulkMarkAttendance = async (
     }
   }
 
+  AttendanceStreakService.checkStreaks(courseId, absentUserIds);
+
   return {
     success: true,
     message: `Bulk attendance marking completed: ${result.success} succeeded, ${result.failed} failed`,
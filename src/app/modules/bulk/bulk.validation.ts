@@ -37,11 +37,14 @@ const bulkMarkAttendanceSchema = z.object({
   body: z.object({
     courseId: z.string(),
     date: z.string().datetime(),
+    attendanceSessionId: z.string().optional(),
+    classScheduleId: z.string().optional(),
     attendance: z.array(z.object({
       studentId: z.string(),
-      status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED']),
+      status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED', 'PARTIAL']),
       notes: z.string().optional(),
     })).min(1),
+    reason: z.string().min(5).max(500).optional(),
   }),
 });
 
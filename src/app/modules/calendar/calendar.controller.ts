@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { AcademicCalendarService } from './calendar.service';
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import { StatusCodes } from 'http-status-codes';
+
+/**
+ * Add a holiday, break or exam period to the academic calendar
+ */
+const createEvent = catchAsync(async (req: Request, res: Response) => {
+    const result = await AcademicCalendarService.createEvent({
+        ...req.body,
+        createdBy: req.user.id,
+    });
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: "Calendar event created successfully",
+        data: result,
+    });
+});
+
+/**
+ * Get academic calendar events
+ */
+const getEvents = catchAsync(async (req: Request, res: Response) => {
+    const result = await AcademicCalendarService.getEvents(req.query);
+    sendResponse(res, {
+        message: "Calendar events retrieved successfully",
+        data: result,
+    });
+});
+
+/**
+ * Update an academic calendar event
+ */
+const updateEvent = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const result = await AcademicCalendarService.updateEvent(id, req.body);
+    sendResponse(res, {
+        message: "Calendar event updated successfully",
+        data: result,
+    });
+});
+
+/**
+ * Delete an academic calendar event
+ */
+const deleteEvent = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const result = await AcademicCalendarService.deleteEvent(id);
+    sendResponse(res, {
+        message: "Calendar event deleted successfully",
+        data: result,
+    });
+});
+
+/**
+ * Get what each day in a range is for a department and/or batch
+ */
+const getDays = catchAsync(async (req: Request, res: Response) => {
+    const { from, to, departmentId, batchId } = req.query as Record<string, string>;
+    const result = await AcademicCalendarService.getDays({ departmentId, batchId }, from, to);
+    sendResponse(res, {
+        message: "Calendar days retrieved successfully",
+        data: result,
+    });
+});
+
+export const calendarControllers = {
+    createEvent,
+    getEvents,
+    updateEvent,
+    deleteEvent,
+    getDays,
+};
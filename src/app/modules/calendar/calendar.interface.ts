@@ -0,0 +1,50 @@
+import { AcademicCalendarEvent, CalendarEventType } from '@prisma/client';
+
+// Export Prisma-generated types
+export type IAcademicCalendarEvent = AcademicCalendarEvent;
+
+// What a single day is for a department or batch
+export type CalendarDayType = 'WORKING' | 'EXAM_PERIOD' | 'NON_WORKING' | 'HOLIDAY' | 'BREAK';
+
+// The department and batch whose calendar applies; either may be missing
+export interface ICalendarScope {
+    departmentId?: string | null;
+    batchId?: string | null;
+}
+
+// Create calendar event interface
+export interface ICalendarEventCreate {
+    name: string;
+    type: CalendarEventType;
+    startDate: string | Date;
+    endDate: string | Date;
+    departmentId?: string;
+    batchId?: string;
+    description?: string;
+    createdBy: string;
+}
+
+// Update calendar event interface
+export type ICalendarEventUpdate = Partial<Omit<ICalendarEventCreate, 'createdBy'>>;
+
+// Calendar event filters interface
+export interface ICalendarEventFilters {
+    type?: CalendarEventType;
+    departmentId?: string;
+    batchId?: string;
+    from?: string;
+    to?: string;
+}
+
+// Resolved calendar days query interface
+export interface ICalendarDaysQuery extends ICalendarScope {
+    from: string;
+    to: string;
+}
+
+// One resolved calendar day
+export interface ICalendarDay {
+    date: string;
+    type: CalendarDayType;
+    events: { id: string; name: string; type: CalendarEventType }[];
+}
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { calendarControllers } from './calendar.controller';
+import { calendarValidation } from './calendar.validation';
+import validateRequest from '../../middlewares/validateRequest';
+import AuthorizeRequest from '../../middlewares/auth';
+
+const router = Router();
+
+/**
+ * @description add a holiday, break or exam period to the academic calendar
+ * @param {string} path - /api/calendar/events
+ * @param {function} middleware - ['AuthorizeRequest(ADMIN, SUPER_ADMIN)', 'validateRequest(calendarValidation.createEventSchema)']
+ * @param {function} controller - ['createEvent']
+ * @returns {object} - router
+ * @access private - ['ADMIN', 'SUPER_ADMIN']
+ * @method POST
+ */
+router.post(
+    '/events',
+    AuthorizeRequest('ADMIN', 'SUPER_ADMIN'),
+    validateRequest(calendarValidation.createEventSchema),
+    calendarControllers.createEvent
+);
+
+/**
+ * @description get academic calendar events
+ * @param {string} path - /api/calendar/events
+ * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(calendarValidation.eventFiltersSchema)']
+ * @param {function} controller - ['getEvents']
+ * @returns {object} - router
+ * @access private
+ * @method GET
+ */
+router.get(
+    '/events',
+    AuthorizeRequest(),
+    validateRequest(calendarValidation.eventFiltersSchema),
+    calendarControllers.getEvents
+);
+
+/**
+ * @description update an academic calendar event
+ * @param {string} path - /api/calendar/events/:id
+ * @param {function} middleware - ['AuthorizeRequest(ADMIN, SUPER_ADMIN)', 'validateRequest(calendarValidation.updateEventSchema)']
+ * @param {function} controller - ['updateEvent']
+ * @returns {object} - router
+ * @access private - ['ADMIN', 'SUPER_ADMIN']
+ * @method PATCH
+ */
+router.patch(
+    '/events/:id',
+    AuthorizeRequest('ADMIN', 'SUPER_ADMIN'),
+    validateRequest(calendarValidation.updateEventSchema),
+    calendarControllers.updateEvent
+);
+
+/**
+ * @description delete an academic calendar event
+ * @param {string} path - /api/calendar/events/:id
+ * @param {function} middleware - ['AuthorizeRequest(ADMIN, SUPER_ADMIN)', 'validateRequest(calendarValidation.idParamSchema)']
+ * @param {function} controller - ['deleteEvent']
+ * @returns {object} - router
+ * @access private - ['ADMIN', 'SUPER_ADMIN']
+ * @method DELETE
+ */
+router.delete(
+    '/events/:id',
+    AuthorizeRequest('ADMIN', 'SUPER_ADMIN'),
+    validateRequest(calendarValidation.idParamSchema),
+    calendarControllers.deleteEvent
+);
+
+/**
+ * @description get what each day in a range is (working, exam period, non-working, holiday or break) for a department and/or batch
+ * @param {string} path - /api/calendar/days
+ * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(calendarValidation.calendarDaysSchema)']
+ * @param {function} controller - ['getDays']
+ * @returns {object} - router
+ * @access private
+ * @method GET
+ */
+router.get(
+    '/days',
+    AuthorizeRequest(),
+    validateRequest(calendarValidation.calendarDaysSchema),
+    calendarControllers.getDays
+);
+
+export const calendarRoutes = router;
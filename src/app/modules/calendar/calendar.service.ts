@@ -0,0 +1,337 @@
+import { Prisma } from '@prisma/client';
+import {
+    CalendarDayType,
+    ICalendarDay,
+    ICalendarEventCreate,
+    ICalendarEventFilters,
+    ICalendarEventUpdate,
+    ICalendarScope,
+} from './calendar.interface';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import { SettingsService } from '../settings/settings.service';
+import { DEFAULT_SETTINGS } from '../settings/settings.interface';
+import {
+    addZonedDays,
+    endOfZonedDay,
+    getZonedWeekday,
+    isValidTimeZone,
+    serverTimeZone,
+    startOfZonedDay,
+    toZonedDateKey,
+} from '../../utils/zonedTime';
+
+// Longest range the resolved days can be listed for
+const MAX_RANGE_DAYS = 366;
+
+const EVENT_SELECT = { id: true, name: true, type: true, startDate: true, endDate: true } as const;
+
+type CalendarEvent = Prisma.AcademicCalendarEventGetPayload<{ select: typeof EVENT_SELECT }>;
+
+// A department or batch calendar loaded for a range of days
+export type LoadedCalendar = {
+    timeZone: string;
+    workingDays: Set<number>;
+    holidays: Set<string>;
+    events: CalendarEvent[];
+};
+
+/**
+ * The time zone attendance days and class times are kept in: the department's own, else institution.timezone
+ */
+const getTimeZone = async (departmentId?: string | null): Promise<string> => {
+    if (departmentId) {
+        const department = await prisma.department.findUnique({
+            where: { id: departmentId },
+            select: { timezone: true },
+        });
+        if (department?.timezone && isValidTimeZone(department.timezone)) {
+            return department.timezone;
+        }
+    }
+
+    const setting = String(await SettingsService.getSetting('institution.timezone') || '');
+    return setting && isValidTimeZone(setting) ? setting : serverTimeZone();
+};
+
+/**
+ * The time zone of a course's department
+ */
+const getCourseTimeZone = async (courseId: string): Promise<string> => {
+    const course = await prisma.course.findUnique({
+        where: { id: courseId },
+        select: { departmentId: true },
+    });
+    return getTimeZone(course?.departmentId);
+};
+
+// Midnight of every day from start to end in the time zone, both included
+const eachDay = (start: Date | string, end: Date | string, timeZone: string): Date[] => {
+    const days: Date[] = [];
+    const last = startOfZonedDay(end, timeZone);
+    for (let day = startOfZonedDay(start, timeZone); day <= last; day = addZonedDays(day, 1, timeZone)) {
+        days.push(day);
+    }
+    return days;
+};
+
+const parseDayList = (value: string): number[] => value
+    .split(',')
+    .map((day) => parseInt(day.trim(), 10))
+    .filter((day) => day >= 1 && day <= 7);
+
+// Events with no department or batch apply to everyone; the others only to their own department or batch
+const scopeWhere = (scope: ICalendarScope): Prisma.AcademicCalendarEventWhereInput => ({
+    AND: [
+        { OR: [{ departmentId: null }, ...(scope.departmentId ? [{ departmentId: scope.departmentId }] : [])] },
+        { OR: [{ batchId: null }, ...(scope.batchId ? [{ batchId: scope.batchId }] : [])] },
+    ],
+});
+
+// The batch's working week, else the department's, else the academic.workingDays setting
+const getWorkingDays = async (scope: ICalendarScope): Promise<number[]> => {
+    const [batch, department] = await Promise.all([
+        scope.batchId
+            ? prisma.batch.findUnique({ where: { id: scope.batchId }, select: { workingDays: true } })
+            : null,
+        scope.departmentId
+            ? prisma.department.findUnique({ where: { id: scope.departmentId }, select: { workingDays: true } })
+            : null,
+    ]);
+
+    if (batch?.workingDays.length) return batch.workingDays;
+    if (department?.workingDays.length) return department.workingDays;
+
+    const setting = String(await SettingsService.getSetting('academic.workingDays') || '');
+    const days = parseDayList(setting);
+    return days.length > 0 ? days : parseDayList(DEFAULT_SETTINGS['academic.workingDays']);
+};
+
+/**
+ * Load the calendar of a department and/or batch between two days: its working week,
+ * the holidays from the academic.holidays setting and every event that applies to it
+ */
+const loadCalendar = async (scope: ICalendarScope, from: Date | string, to: Date | string): Promise<LoadedCalendar> => {
+    const timeZone = await getTimeZone(scope.departmentId);
+    const [workingDays, holidays, events] = await Promise.all([
+        getWorkingDays(scope),
+        SettingsService.getSetting('academic.holidays'),
+        prisma.academicCalendarEvent.findMany({
+            where: {
+                ...scopeWhere(scope),
+                startDate: { lte: endOfZonedDay(to, timeZone) },
+                endDate: { gte: startOfZonedDay(from, timeZone) },
+            },
+            select: EVENT_SELECT,
+        }),
+    ]);
+
+    return {
+        timeZone,
+        workingDays: new Set(workingDays),
+        holidays: new Set(String(holidays || '').split(',').map((date) => date.trim()).filter(Boolean)),
+        events,
+    };
+};
+
+const getDayEvents = (calendar: LoadedCalendar, date: Date) => {
+    const day = toZonedDateKey(date, calendar.timeZone);
+    return calendar.events.filter((event) => toZonedDateKey(event.startDate, calendar.timeZone) <= day
+        && day <= toZonedDateKey(event.endDate, calendar.timeZone));
+};
+
+/**
+ * What a day is under a loaded calendar. Holidays and breaks close the day whatever the working week says;
+ * an exam period only suspends the regular timetable of a working day.
+ */
+const getDayType = (calendar: LoadedCalendar, date: Date): CalendarDayType => {
+    const events = getDayEvents(calendar, date);
+
+    if (calendar.holidays.has(toZonedDateKey(date, calendar.timeZone)) || events.some((event) => event.type === 'HOLIDAY')) {
+        return 'HOLIDAY';
+    }
+    if (events.some((event) => event.type === 'BREAK')) {
+        return 'BREAK';
+    }
+
+    if (!calendar.workingDays.has(getZonedWeekday(date, calendar.timeZone))) {
+        return 'NON_WORKING';
+    }
+
+    return events.some((event) => event.type === 'EXAM_PERIOD') ? 'EXAM_PERIOD' : 'WORKING';
+};
+
+// The institution is open: leave is counted against the day and absences on it are real
+const isWorkingDay = (type: CalendarDayType) => type === 'WORKING' || type === 'EXAM_PERIOD';
+
+// The regular timetable runs: scheduled classes are held
+const isTeachingDay = (type: CalendarDayType) => type === 'WORKING';
+
+/**
+ * Number of working days between two days, both included
+ */
+const countWorkingDays = async (scope: ICalendarScope, from: Date | string, to: Date | string): Promise<number> => {
+    const calendar = await loadCalendar(scope, from, to);
+    return eachDay(from, to, calendar.timeZone).filter((day) => isWorkingDay(getDayType(calendar, day))).length;
+};
+
+// The department and batch whose calendar applies to a user
+const getUserScope = async (userId: string): Promise<ICalendarScope> => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+            departmentId: true,
+            studentProfile: { select: { departmentId: true, batchId: true } },
+            teacherProfile: { select: { departmentId: true } },
+        },
+    });
+
+    return {
+        departmentId: user?.studentProfile?.departmentId
+            ?? user?.teacherProfile?.departmentId
+            ?? user?.departmentId,
+        batchId: user?.studentProfile?.batchId,
+    };
+};
+
+/**
+ * The time zone of a user's department
+ */
+const getUserTimeZone = async (userId: string): Promise<string> => {
+    const scope = await getUserScope(userId);
+    return getTimeZone(scope.departmentId);
+};
+
+// The department or batch an event is scoped to must exist
+const assertScopeExists = async (scope: ICalendarScope) => {
+    if (scope.departmentId) {
+        const department = await prisma.department.findUnique({ where: { id: scope.departmentId } });
+        if (!department) {
+            throw new AppError(StatusCodes.NOT_FOUND, 'Department not found');
+        }
+    }
+
+    if (scope.batchId) {
+        const batch = await prisma.batch.findUnique({ where: { id: scope.batchId } });
+        if (!batch) {
+            throw new AppError(StatusCodes.NOT_FOUND, 'Batch not found');
+        }
+    }
+};
+
+/**
+ * Add a holiday, break or exam period to the academic calendar
+ */
+const createEvent = async (payload: ICalendarEventCreate) => {
+    await assertScopeExists(payload);
+    const timeZone = await getTimeZone(payload.departmentId);
+
+    return prisma.academicCalendarEvent.create({
+        data: {
+            name: payload.name,
+            type: payload.type,
+            startDate: startOfZonedDay(payload.startDate, timeZone),
+            endDate: startOfZonedDay(payload.endDate, timeZone),
+            departmentId: payload.departmentId,
+            batchId: payload.batchId,
+            description: payload.description,
+            createdBy: payload.createdBy,
+        },
+    });
+};
+
+/**
+ * Get academic calendar events, optionally only those overlapping a range of days
+ */
+const getEvents = async (filters: ICalendarEventFilters) => {
+    const where: Prisma.AcademicCalendarEventWhereInput = {};
+    const timeZone = await getTimeZone(filters.departmentId);
+
+    if (filters.type) where.type = filters.type;
+    if (filters.departmentId) where.departmentId = filters.departmentId;
+    if (filters.batchId) where.batchId = filters.batchId;
+    if (filters.from) where.endDate = { gte: startOfZonedDay(filters.from, timeZone) };
+    if (filters.to) where.startDate = { lte: endOfZonedDay(filters.to, timeZone) };
+
+    return prisma.academicCalendarEvent.findMany({
+        where,
+        include: {
+            department: { select: { id: true, name: true, code: true } },
+            batch: { select: { id: true, name: true } },
+        },
+        orderBy: { startDate: 'asc' },
+    });
+};
+
+/**
+ * Update an academic calendar event
+ */
+const updateEvent = async (id: string, payload: ICalendarEventUpdate) => {
+    const event = await prisma.academicCalendarEvent.findUnique({ where: { id } });
+    if (!event) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Calendar event not found');
+    }
+
+    const timeZone = await getTimeZone(payload.departmentId ?? event.departmentId);
+    const startDate = startOfZonedDay(payload.startDate ?? event.startDate, timeZone);
+    const endDate = startOfZonedDay(payload.endDate ?? event.endDate, timeZone);
+    if (endDate < startDate) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'End date must be on or after the start date');
+    }
+
+    await assertScopeExists(payload);
+
+    return prisma.academicCalendarEvent.update({
+        where: { id },
+        data: { ...payload, startDate, endDate },
+    });
+};
+
+/**
+ * Delete an academic calendar event
+ */
+const deleteEvent = async (id: string) => {
+    const event = await prisma.academicCalendarEvent.findUnique({ where: { id } });
+    if (!event) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Calendar event not found');
+    }
+
+    return prisma.academicCalendarEvent.delete({ where: { id } });
+};
+
+/**
+ * Resolve every day between two days for a department and/or batch
+ */
+const getDays = async (scope: ICalendarScope, from: string, to: string): Promise<ICalendarDay[]> => {
+    const calendar = await loadCalendar(scope, from, to);
+
+    const days = eachDay(from, to, calendar.timeZone);
+    if (days.length > MAX_RANGE_DAYS) {
+        throw new AppError(StatusCodes.BAD_REQUEST, `The calendar can be listed for at most ${MAX_RANGE_DAYS} days at a time`);
+    }
+
+    return days.map((day) => ({
+        date: toZonedDateKey(day, calendar.timeZone),
+        type: getDayType(calendar, day),
+        events: getDayEvents(calendar, day).map(({ id, name, type }) => ({ id, name, type })),
+    }));
+};
+
+export const AcademicCalendarService = {
+    createEvent,
+    getEvents,
+    updateEvent,
+    deleteEvent,
+    getDays,
+    loadCalendar,
+    getDayType,
+    isWorkingDay,
+    isTeachingDay,
+    countWorkingDays,
+    getUserScope,
+    getTimeZone,
+    getCourseTimeZone,
+    getUserTimeZone,
+    eachDay,
+};
@@ -0,0 +1,76 @@
+import { z } from "zod";
+
+const dateSchema = z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid date format');
+
+const eventTypeSchema = z.enum(['HOLIDAY', 'BREAK', 'EXAM_PERIOD']);
+
+// Create calendar event validation schema
+const createEventSchema = z.object({
+    body: z.object({
+        name: z.string().min(2, 'Name must be at least 2 characters').max(100, 'Name must be less than 100 characters'),
+        type: eventTypeSchema,
+        startDate: dateSchema,
+        endDate: dateSchema,
+        departmentId: z.string().optional(),
+        batchId: z.string().optional(),
+        description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+    }).refine((data) => new Date(data.endDate) >= new Date(data.startDate), {
+        message: 'End date must be on or after the start date',
+        path: ['endDate'],
+    }),
+});
+
+// Update calendar event validation schema
+const updateEventSchema = z.object({
+    params: z.object({
+        id: z.string().min(1, 'ID is required'),
+    }),
+    body: z.object({
+        name: z.string().min(2, 'Name must be at least 2 characters').max(100, 'Name must be less than 100 characters').optional(),
+        type: eventTypeSchema.optional(),
+        startDate: dateSchema.optional(),
+        endDate: dateSchema.optional(),
+        departmentId: z.string().optional(),
+        batchId: z.string().optional(),
+        description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+    }),
+});
+
+// Calendar event filters validation schema
+const eventFiltersSchema = z.object({
+    query: z.object({
+        type: eventTypeSchema.optional(),
+        departmentId: z.string().optional(),
+        batchId: z.string().optional(),
+        from: dateSchema.optional(),
+        to: dateSchema.optional(),
+    }),
+});
+
+// Resolved calendar days validation schema
+const calendarDaysSchema = z.object({
+    query: z.object({
+        from: dateSchema,
+        to: dateSchema,
+        departmentId: z.string().optional(),
+        batchId: z.string().optional(),
+    }).refine((data) => new Date(data.to) >= new Date(data.from), {
+        message: 'The end of the range must be on or after its start',
+        path: ['to'],
+    }),
+});
+
+// ID parameter validation schema
+const idParamSchema = z.object({
+    params: z.object({
+        id: z.string().min(1, 'ID is required'),
+    }),
+});
+
+export const calendarValidation = {
+    createEventSchema,
+    updateEventSchema,
+    eventFiltersSchema,
+    calendarDaysSchema,
+    idParamSchema,
+};
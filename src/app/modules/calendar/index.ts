@@ -0,0 +1,5 @@
+export * from './calendar.interface';
+export * from './calendar.service';
+export * from './calendar.controller';
+export * from './calendar.validation';
+export { calendarRoutes } from './calendar.route';
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { correctionServices } from './correction.service';
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import { StatusCodes } from 'http-status-codes';
+
+/**
+ * File a correction request against an attendance record
+ */
+const fileCorrection = catchAsync(async (req: Request, res: Response) => {
+    const result = await correctionServices.fileCorrection({
+        ...req.body,
+        requestedBy: req.user.id,
+    });
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: "Correction request submitted successfully",
+        data: result,
+    });
+});
+
+/**
+ * Get correction requests visible to the current user
+ */
+const getCorrections = catchAsync(async (req: Request, res: Response) => {
+    const result = await correctionServices.getCorrections(req.query, req.user.id, req.user.role);
+    sendResponse(res, {
+        message: "Correction requests retrieved successfully",
+        data: result,
+    });
+});
+
+/**
+ * Get correction request by ID
+ */
+const getCorrectionById = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const result = await correctionServices.getCorrectionById(id, req.user.id, req.user.role);
+    sendResponse(res, {
+        message: "Correction request retrieved successfully",
+        data: result,
+    });
+});
+
+/**
+ * Approve or reject a correction request
+ */
+const reviewCorrection = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { status, reviewNote } = req.body;
+    const result = await correctionServices.reviewCorrection(id, {
+        status,
+        reviewNote,
+        reviewedBy: req.user.id,
+        role: req.user.role,
+    });
+    sendResponse(res, {
+        message: `Correction request ${status === 'APPROVED' ? 'approved' : 'rejected'} successfully`,
+        data: result,
+    });
+});
+
+export const correctionControllers = {
+    fileCorrection,
+    getCorrections,
+    getCorrectionById,
+    reviewCorrection,
+};
@@ -0,0 +1,35 @@
+import { AttendanceCorrectionRequest } from '@prisma/client';
+import { AttendanceStatus } from '../attendance/attendance.interface';
+
+// Export Prisma-generated types
+export type ICorrectionRequest = AttendanceCorrectionRequest;
+
+// Correction request status type
+export type CorrectionStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// File correction request interface
+export interface ICorrectionRequestCreate {
+    attendanceId: string;
+    requestedBy: string;
+    requestedStatus: AttendanceStatus;
+    reason: string;
+    attachment?: string;
+}
+
+// Approve/Reject correction request interface
+export interface ICorrectionReview {
+    status: Exclude<CorrectionStatus, 'PENDING'>;
+    reviewedBy: string;
+    role: string;
+    reviewNote?: string;
+}
+
+// Correction request filters interface
+export interface ICorrectionFilters {
+    requestedBy?: string;
+    reviewerId?: string; // restrict to courses taught by this teacher
+    courseId?: string;
+    status?: CorrectionStatus;
+    page?: number | string;
+    limit?: number | string;
+}
@@ -0,0 +1,103 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/prisma';
+import { ICorrectionFilters, ICorrectionRequestCreate } from './correction.interface';
+import { AttendanceStatus } from '../attendance/attendance.interface';
+
+const correctionInclude = {
+    attendance: {
+        include: {
+            course: {
+                select: { id: true, title: true, code: true, teacherId: true },
+            },
+            attendanceSession: {
+                select: { id: true, teacherId: true },
+            },
+        },
+    },
+    requester: {
+        select: { id: true, name: true, email: true },
+    },
+    reviewer: {
+        select: { id: true, name: true, email: true },
+    },
+};
+
+// Correction request model operations
+export const CorrectionModel = {
+    // Create a new correction request
+    create: async (data: ICorrectionRequestCreate & { currentStatus: AttendanceStatus }) => {
+        return await prisma.attendanceCorrectionRequest.create({
+            data,
+            include: correctionInclude,
+        });
+    },
+
+    // Find correction request by ID
+    findById: async (id: string) => {
+        return await prisma.attendanceCorrectionRequest.findUnique({
+            where: { id },
+            include: correctionInclude,
+        });
+    },
+
+    // Find the open request for an attendance record, if any
+    findPendingByAttendance: async (attendanceId: string) => {
+        return await prisma.attendanceCorrectionRequest.findFirst({
+            where: { attendanceId, status: 'PENDING' },
+        });
+    },
+
+    // Get correction requests with filters
+    findMany: async (filters: ICorrectionFilters) => {
+        const { requestedBy, reviewerId, courseId, status, page = 1, limit = 10 } = filters;
+
+        const where: Prisma.AttendanceCorrectionRequestWhereInput = {};
+
+        if (requestedBy) where.requestedBy = requestedBy;
+        if (status) where.status = status;
+        if (courseId || reviewerId) {
+            where.attendance = {
+                ...(courseId && { courseId }),
+                ...(reviewerId && {
+                    OR: [
+                        { course: { teacherId: reviewerId } },
+                        { attendanceSession: { teacherId: reviewerId } },
+                    ],
+                }),
+            };
+        }
+
+        const pageNum = parseInt(String(page), 10) || 1;
+        const limitNum = parseInt(String(limit), 10) || 10;
+
+        const [data, total] = await Promise.all([
+            prisma.attendanceCorrectionRequest.findMany({
+                where,
+                include: correctionInclude,
+                orderBy: { createdAt: 'desc' },
+                skip: (pageNum - 1) * limitNum,
+                take: limitNum,
+            }),
+            prisma.attendanceCorrectionRequest.count({ where }),
+        ]);
+
+        return {
+            data,
+            meta: {
+                page: pageNum,
+                limit: limitNum,
+                total,
+                totalPages: Math.ceil(total / limitNum),
+            },
+        };
+    },
+
+    // Record the review decision
+    update: async (id: string, data: Prisma.AttendanceCorrectionRequestUncheckedUpdateInput) => {
+        return await prisma.attendanceCorrectionRequest.update({
+            where: { id },
+            data,
+            include: correctionInclude,
+        });
+    },
+};
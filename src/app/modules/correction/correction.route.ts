@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { correctionControllers } from './correction.controller';
+import { correctionValidation } from './correction.validation';
+import validateRequest from '../../middlewares/validateRequest';
+import AuthorizeRequest from '../../middlewares/auth';
+
+const router = Router();
+
+/**
+ * @description file a correction request against one of my attendance records
+ * @param {string} path - /api/correction/
+ * @param {function} middleware - ['AuthorizeRequest(STUDENT)', 'validateRequest(correctionValidation.createCorrectionSchema)']
+ * @param {function} controller - ['fileCorrection']
+ * @returns {object} - router
+ * @access private - ['STUDENT']
+ * @method POST
+ */
+router.post(
+    '/',
+    AuthorizeRequest('STUDENT'),
+    validateRequest(correctionValidation.createCorrectionSchema),
+    correctionControllers.fileCorrection
+);
+
+/**
+ * @description get correction requests (students see their own, teachers those for their courses)
+ * @param {string} path - /api/correction/
+ * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(correctionValidation.correctionFiltersSchema)']
+ * @param {function} controller - ['getCorrections']
+ * @returns {object} - router
+ * @access private
+ * @method GET
+ */
+router.get(
+    '/',
+    AuthorizeRequest(),
+    validateRequest(correctionValidation.correctionFiltersSchema),
+    correctionControllers.getCorrections
+);
+
+/**
+ * @description get correction request by ID
+ * @param {string} path - /api/correction/:id
+ * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(correctionValidation.idParamSchema)']
+ * @param {function} controller - ['getCorrectionById']
+ * @returns {object} - router
+ * @access private
+ * @method GET
+ */
+router.get(
+    '/:id',
+    AuthorizeRequest(),
+    validateRequest(correctionValidation.idParamSchema),
+    correctionControllers.getCorrectionById
+);
+
+/**
+ * @description approve or reject a correction request
+ * @param {string} path - /api/correction/:id/review
+ * @param {function} middleware - ['AuthorizeRequest(TEACHER, ADMIN, SUPER_ADMIN)', 'validateRequest(correctionValidation.idParamSchema)', 'validateRequest(correctionValidation.reviewCorrectionSchema)']
+ * @param {function} controller - ['reviewCorrection']
+ * @returns {object} - router
+ * @access private - ['TEACHER', 'ADMIN', 'SUPER_ADMIN']
+ * @method PATCH
+ */
+router.patch(
+    '/:id/review',
+    AuthorizeRequest('TEACHER', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(correctionValidation.idParamSchema),
+    validateRequest(correctionValidation.reviewCorrectionSchema),
+    correctionControllers.reviewCorrection
+);
+
+export const correctionRoutes = router;
@@ -0,0 +1,163 @@
+import { CorrectionModel } from './correction.model';
+import {
+    ICorrectionFilters,
+    ICorrectionRequestCreate,
+    ICorrectionReview,
+} from './correction.interface';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import { attendanceServices } from '../attendance/attendance.service';
+import { notificationServices } from '../notification/notification.service';
+
+const isAdmin = (role: string) => ['ADMIN', 'SUPER_ADMIN'].includes(role);
+
+/**
+ * A record can be reviewed by the course teacher, the teacher who ran its session, or an admin
+ */
+const canReview = (
+    attendance: { course: { teacherId: string | null }; attendanceSession: { teacherId: string } | null },
+    userId: string,
+    role: string
+) => isAdmin(role)
+    || attendance.course.teacherId === userId
+    || attendance.attendanceSession?.teacherId === userId;
+
+/**
+ * File a correction request against one of the student's own attendance records
+ */
+const fileCorrection = async (data: ICorrectionRequestCreate) => {
+    const attendance = await prisma.attendance.findUnique({
+        where: { id: data.attendanceId },
+        include: { course: true },
+    });
+
+    if (!attendance) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Attendance record not found');
+    }
+
+    if (attendance.userId !== data.requestedBy) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'You can only dispute your own attendance records');
+    }
+
+    if (attendance.status === data.requestedStatus) {
+        throw new AppError(StatusCodes.BAD_REQUEST, `Attendance is already marked as ${data.requestedStatus}`);
+    }
+
+    const pending = await CorrectionModel.findPendingByAttendance(attendance.id);
+    if (pending) {
+        throw new AppError(StatusCodes.CONFLICT, 'A correction request for this record is already pending');
+    }
+
+    const correction = await CorrectionModel.create({
+        ...data,
+        currentStatus: attendance.status,
+    });
+
+    if (attendance.course.teacherId) {
+        await notificationServices.sendNotification({
+            recipientId: attendance.course.teacherId,
+            title: 'Attendance correction requested',
+            message: `${correction.requester.name} asked to change their ${attendance.course.title} attendance on ${attendance.date.toDateString()} from ${attendance.status} to ${data.requestedStatus}.`,
+        });
+    }
+
+    return correction;
+};
+
+/**
+ * Get correction requests; teachers only see requests for the courses they teach
+ */
+const getCorrections = async (filters: ICorrectionFilters, userId: string, role: string) => {
+    if (role === 'STUDENT') {
+        return CorrectionModel.findMany({ ...filters, requestedBy: userId });
+    }
+
+    return CorrectionModel.findMany({
+        ...filters,
+        reviewerId: isAdmin(role) ? undefined : userId,
+    });
+};
+
+/**
+ * Get correction request by ID, visible to the requester and its reviewers
+ */
+const getCorrectionById = async (id: string, userId: string, role: string) => {
+    const correction = await CorrectionModel.findById(id);
+
+    if (!correction) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Correction request not found');
+    }
+
+    if (correction.requestedBy !== userId && !canReview(correction.attendance, userId, role)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'You are not allowed to view this correction request');
+    }
+
+    return correction;
+};
+
+/**
+ * Approve or reject a pending correction request.
+ * Approval applies the requested status through the regular attendance update.
+ */
+const reviewCorrection = async (id: string, review: ICorrectionReview) => {
+    const correction = await CorrectionModel.findById(id);
+
+    if (!correction) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Correction request not found');
+    }
+
+    if (correction.status !== 'PENDING') {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Correction request has already been reviewed');
+    }
+
+    if (!canReview(correction.attendance, review.reviewedBy, review.role)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the course teacher or an admin can review this request');
+    }
+
+    if (review.status === 'APPROVED') {
+        await attendanceServices.updateAttendance(
+            correction.attendanceId,
+            {
+                status: correction.requestedStatus,
+                overrideStatus: true,
+            },
+            {
+                userId: review.reviewedBy,
+                role: review.role,
+                reason: `Correction request approved: ${review.reviewNote || correction.reason}`,
+            }
+        );
+    }
+
+    const result = await CorrectionModel.update(id, {
+        status: review.status,
+        reviewedBy: review.reviewedBy,
+        reviewedAt: new Date(),
+        reviewNote: review.reviewNote,
+    });
+
+    const { course, date } = correction.attendance;
+    const decision = review.status === 'APPROVED' ? 'approved' : 'rejected';
+
+    // Let the student know, and the course teacher too when an admin made the decision
+    const recipientIds = [correction.requestedBy];
+    if (course.teacherId && course.teacherId !== review.reviewedBy) {
+        recipientIds.push(course.teacherId);
+    }
+
+    await notificationServices.sendBulkNotifications({
+        recipientIds,
+        title: `Attendance correction ${decision}`,
+        message: `The request to change ${course.title} attendance on ${date.toDateString()} to ${correction.requestedStatus} was ${decision}.${review.reviewNote ? ` Note: ${review.reviewNote}` : ''}`,
+    });
+
+    return result;
+};
+
+export const correctionServices = {
+    fileCorrection,
+    getCorrections,
+    getCorrectionById,
+    reviewCorrection,
+};
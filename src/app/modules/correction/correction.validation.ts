@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Attendance status enum
+const attendanceStatusEnum = z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED', 'PARTIAL']);
+
+// Correction status enum
+const correctionStatusEnum = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
+
+// File correction request validation schema
+const createCorrectionSchema = z.object({
+    body: z.object({
+        attendanceId: z.string().min(1, 'Attendance ID is required'),
+        requestedStatus: attendanceStatusEnum,
+        reason: z.string().min(5, 'Reason must be at least 5 characters').max(1000, 'Reason must be less than 1000 characters'),
+        attachment: z.string().url('Attachment must be a valid URL').optional(),
+    }),
+});
+
+// Review correction request validation schema
+const reviewCorrectionSchema = z.object({
+    body: z.object({
+        status: z.enum(['APPROVED', 'REJECTED']),
+        reviewNote: z.string().max(500, 'Review note must be less than 500 characters').optional(),
+    }),
+});
+
+// Correction filters validation schema
+const correctionFiltersSchema = z.object({
+    query: z.object({
+        courseId: z.string().optional(),
+        status: correctionStatusEnum.optional(),
+        page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+        limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+    }),
+});
+
+// ID parameter validation schema
+const idParamSchema = z.object({
+    params: z.object({
+        id: z.string().min(1, 'ID is required'),
+    }),
+});
+
+export const correctionValidation = {
+    createCorrectionSchema,
+    reviewCorrectionSchema,
+    correctionFiltersSchema,
+    idParamSchema,
+};
@@ -0,0 +1,6 @@
+export * from './correction.interface';
+export * from './correction.model';
+export * from './correction.service';
+export * from './correction.controller';
+export * from './correction.validation';
+export { correctionRoutes } from './correction.route';
\ No newline at end of file
@@ -48,6 +48,11 @@ export interface ICourseCreate {
     subjectId?: string;
     semesterId?: string;
     semester?: number;
+    minPresencePercent?: number;
+    earlyLeaveStatus?: 'PARTIAL' | 'LATE' | 'ABSENT';
+    lateWeight?: number;
+    partialWeight?: number;
+    excludeExcused?: boolean;
 }
 
 // For updating a course
@@ -70,6 +75,9 @@ export interface IClassScheduleCreate {
     startTime: string;
     endTime: string;
     room?: string;
+    roomLatitude?: number;
+    roomLongitude?: number;
+    roomGeofenceRadius?: number; // meters
     semester?: number;
 }
 
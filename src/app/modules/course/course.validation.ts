@@ -12,6 +12,11 @@ export const createCourseValidationSchema = z.object({
     subjectId: z.string().cuid('Invalid subject ID').optional(),
     semesterId: z.string().cuid('Invalid semester ID').optional(),
     semester: z.number().int().min(1, 'Semester must be at least 1').max(10, 'Semester must be at most 10').optional(),
+    minPresencePercent: z.number().int().min(0, 'Minimum presence must be at least 0').max(100, 'Minimum presence must be at most 100').optional(),
+    earlyLeaveStatus: z.enum(['PARTIAL', 'LATE', 'ABSENT']).optional(),
+    lateWeight: z.number().min(0, 'Late weight must be at least 0').max(1, 'Late weight must be at most 1').optional(),
+    partialWeight: z.number().min(0, 'Partial weight must be at least 0').max(1, 'Partial weight must be at most 1').optional(),
+    excludeExcused: z.boolean().optional(),
 });
 
 export const updateCourseValidationSchema = z.object({
@@ -25,6 +30,11 @@ export const updateCourseValidationSchema = z.object({
     subjectId: z.string().cuid('Invalid subject ID').optional(),
     semesterId: z.string().cuid('Invalid semester ID').optional(),
     semester: z.number().int().min(1, 'Semester must be at least 1').max(10, 'Semester must be at most 10').optional(),
+    minPresencePercent: z.number().int().min(0, 'Minimum presence must be at least 0').max(100, 'Minimum presence must be at most 100').optional(),
+    earlyLeaveStatus: z.enum(['PARTIAL', 'LATE', 'ABSENT']).optional(),
+    lateWeight: z.number().min(0, 'Late weight must be at least 0').max(1, 'Late weight must be at most 1').optional(),
+    partialWeight: z.number().min(0, 'Partial weight must be at least 0').max(1, 'Partial weight must be at most 1').optional(),
+    excludeExcused: z.boolean().optional(),
     isActive: z.boolean().optional(),
 });
 
@@ -59,6 +69,9 @@ export const createClassScheduleValidationSchema = z.object({
     startTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid start time format (HH:MM)'),
     endTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid end time format (HH:MM)'),
     room: z.string().max(50, 'Room must be less than 50 characters').optional(),
+    roomLatitude: z.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90').optional(),
+    roomLongitude: z.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180').optional(),
+    roomGeofenceRadius: z.number().int().min(10, 'Radius must be at least 10 meters').max(5000, 'Radius must be at most 5000 meters').optional(),
     semester: z.number().int().min(1, 'Semester must be at least 1').max(10, 'Semester must be at most 10').optional(),
 }).refine((data) => {
     const [startHour, startMin] = data.startTime.split(':').map(Number);
@@ -81,6 +94,9 @@ export const updateClassScheduleValidationSchema = z.object({
     startTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid start time format (HH:MM)').optional(),
     endTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid end time format (HH:MM)').optional(),
     room: z.string().max(50, 'Room must be less than 50 characters').optional(),
+    roomLatitude: z.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90').optional(),
+    roomLongitude: z.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180').optional(),
+    roomGeofenceRadius: z.number().int().min(10, 'Radius must be at least 10 meters').max(5000, 'Radius must be at most 5000 meters').optional(),
     semester: z.number().int().min(1, 'Semester must be at least 1').max(10, 'Semester must be at most 10').optional(),
     isActive: z.boolean().optional(),
 }).refine((data) => {
@@ -15,6 +15,7 @@ export interface IAttendanceStats {
         absent: number;
         late: number;
         excused: number;
+        percentage: number;
     }>;
 }
 
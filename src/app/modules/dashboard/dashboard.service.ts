@@ -9,6 +9,7 @@ import {
 } from './dashboard.interface';
 import prisma from '../../config/prisma';
 import { AttendanceModel } from '../attendance/attendance.model';
+import { AttendancePolicyService } from '../attendance/attendancePolicy.service';
 import { StudentModel } from '../student/student.model';
 import { TeacherModel } from '../teacher/teacher.model';
 
@@ -120,6 +121,9 @@ export const DashboardService = {
 
         const offset = (page - 1) * limit;
 
+        // Attendance rates weigh marks by each course's attendance policy
+        const policy = await AttendancePolicyService.getPolicySql();
+
         // Get courses with related data
         const coursesQuery = `
             SELECT 
@@ -129,11 +133,12 @@ export const DashboardService = {
                 b.id as batchId,
                 b.name as batchName,
                 COUNT(DISTINCT ce.user_id) as totalStudents,
-                AVG(CASE WHEN a.status = 'PRESENT' THEN 100 ELSE 0 END) as averageAttendance
+                ${policy.percentage} as averageAttendance
             FROM courses c
             JOIN batches b ON c.batch_id = b.id
             JOIN course_enrollments ce ON c.id = ce.course_id
             LEFT JOIN attendances a ON ce.user_id = a.user_id AND c.id = a.course_id
+            ${policy.joins}
             ${startDate || endDate ? `WHERE (a.date >= $${params.length + 1} AND a.date <= $${params.length + 2})` : ''}
             ${startDate ? params.push(startDate) : ''}
             ${endDate ? params.push(endDate) : ''}
@@ -147,32 +152,15 @@ export const DashboardService = {
 
         // Process attendance distribution for each course
         const coursesWithDistribution = await Promise.all(courses.map(async (course: any) => {
-            const attendanceDistributionQuery = `
-                SELECT 
-                    COUNT(CASE WHEN status = 'PRESENT' THEN 1 END) as present,
-                    COUNT(CASE WHEN status = 'ABSENT' THEN 1 END) as absent,
-                    COUNT(CASE WHEN status = 'LATE' THEN 1 END) as late,
-                    COUNT(CASE WHEN status = 'EXCUSED' THEN 1 END) as excused
-                FROM attendances
-                WHERE course_id = $1
-                GROUP BY status
-            `;
-
-            const distributionResult = await prisma.$queryRawUnsafe(attendanceDistributionQuery, course.courseId) as any[];
-            const distribution = distributionResult.reduce((acc: any, item: any) => {
-                acc[item.status.toLowerCase()] = Number(item.count);
-                return acc;
-            }, { present: 0, absent: 0, late: 0, excused: 0 });
-
-            const totalClasses = Object.values(distribution).reduce((sum: number, count: any) => sum + Number(count), 0);
-            const attendanceRate = totalClasses > 0 ? (Number(distribution.present) / totalClasses) * 100 : 0;
+            const attendanceRate = await AttendancePolicyService.getAttendancePercentage({ courseId: course.courseId });
 
             // Get monthly trend
             const monthlyTrendQuery = `
                 SELECT 
                     TO_CHAR(date, 'YYYY-MM') as month,
-                    AVG(CASE WHEN status = 'PRESENT' THEN 100 ELSE 0 END) as attendanceRate
-                FROM attendances
+                    ${policy.percentage} as attendanceRate
+                FROM attendances a
+                ${policy.joins}
                 WHERE course_id = $1
                     ${startDate || endDate ? `AND (date >= $${params.length + 1} AND date <= $${params.length + 2})` : ''}
                 GROUP BY TO_CHAR(date, 'YYYY-MM')
@@ -249,6 +237,9 @@ export const DashboardService = {
 
         const offset = (page - 1) * limit;
 
+        // Attendance rates weigh marks by each course's attendance policy
+        const policy = await AttendancePolicyService.getPolicySql();
+
         // Get subjects with related data
         const subjectsQuery = `
             SELECT 
@@ -259,13 +250,14 @@ export const DashboardService = {
                 d.name as departmentName,
                 COUNT(DISTINCT c.id) as totalCourses,
                 COUNT(DISTINCT ce.user_id) as totalStudents,
-                AVG(CASE WHEN a.status = 'PRESENT' THEN 100 ELSE 0 END) as averageAttendance,
+                ${policy.percentage} as averageAttendance,
                 AVG(CASE WHEN gpa IS NOT NULL THEN gpa ELSE 0 END) as averagePerformance
             FROM subjects s
             LEFT JOIN departments d ON s.department_id = d.id
             LEFT JOIN courses c ON s.id = c.subject_id
             LEFT JOIN course_enrollments ce ON c.id = ce.course_id
             LEFT JOIN attendances a ON ce.user_id = a.user_id AND c.id = a.course_id
+            ${policy.joins}
             LEFT JOIN students st ON ce.user_id = st.user_id
             ${whereClause}
             GROUP BY s.id, s.name, s.code, d.id, d.name
@@ -282,9 +274,10 @@ export const DashboardService = {
                 SELECT 
                     c.id as courseId,
                     c.title as courseName,
-                    AVG(CASE WHEN a.status = 'PRESENT' THEN 100 ELSE 0 END) as attendanceRate
+                    ${policy.percentage} as attendanceRate
                 FROM courses c
                 JOIN attendances a ON c.id = a.course_id
+                ${policy.joins}
                 WHERE c.subject_id = $1
                 GROUP BY c.id, c.title
                 ORDER BY attendanceRate DESC
@@ -358,6 +351,9 @@ export const DashboardService = {
 
         const offset = (page - 1) * limit;
 
+        // Attendance rates weigh marks by each course's attendance policy
+        const policy = await AttendancePolicyService.getPolicySql();
+
         // Get teachers with performance data
         const teachersQuery = `
             SELECT 
@@ -367,7 +363,7 @@ export const DashboardService = {
                 d.name as departmentName,
                 COUNT(DISTINCT c.id) as totalCourses,
                 COUNT(DISTINCT ce.user_id) as totalStudents,
-                AVG(CASE WHEN a.status = 'PRESENT' THEN 100 ELSE 0 END) as averageAttendance,
+                ${policy.percentage} as averageAttendance,
                 AVG(CASE WHEN st.gpa IS NOT NULL THEN st.gpa ELSE 0 END) as studentPerformance,
                 COUNT(DISTINCT a.id) / COUNT(DISTINCT c.id) as attendanceMarkingConsistency,
                 COUNT(CASE WHEN lr.status = 'APPROVED' THEN 1 ELSE 0 END) / COUNT(DISTINCT lr.id) as leaveApprovalRate
@@ -377,6 +373,7 @@ export const DashboardService = {
             LEFT JOIN courses c ON t.id = c.teacher_id
             LEFT JOIN course_enrollments ce ON c.id = ce.course_id
             LEFT JOIN attendances a ON ce.user_id = a.user_id AND c.id = a.course_id
+            ${policy.joins}
             LEFT JOIN students st ON ce.user_id = st.user_id
             LEFT JOIN leave_requests lr ON t.id = lr.teacher_id
             ${whereClause}
@@ -393,9 +390,10 @@ export const DashboardService = {
             const monthlyTrendQuery = `
                 SELECT 
                     TO_CHAR(a.date, 'YYYY-MM') as month,
-                    AVG(CASE WHEN a.status = 'PRESENT' THEN 100 ELSE 0 END) as attendanceRate,
+                    ${policy.percentage} as attendanceRate,
                     AVG(CASE WHEN st.gpa IS NOT NULL THEN st.gpa ELSE 0 END) as performanceScore
                 FROM attendances a
+                ${policy.joins}
                 JOIN course_enrollments ce ON a.course_id = ce.course_id
                 JOIN courses c ON ce.course_id = c.id AND c.teacher_id = $1
                 JOIN students st ON ce.user_id = st.user_id
@@ -483,9 +481,12 @@ export const DashboardService = {
             excusedCount: 0,
         };
 
-        const attendancePercentage = attendance.totalClasses > 0
-            ? Math.round((attendance.presentCount / attendance.totalClasses) * 100)
-            : 0;
+        const attendancePercentage = Math.round(await AttendancePolicyService.getAttendancePercentage({
+            date: {
+                ...(startDate && { gte: startDate }),
+                ...(endDate && { lte: endDate }),
+            },
+        }));
 
         // Get monthly breakdown
         const monthlyBreakdownQuery = `
@@ -505,6 +506,23 @@ export const DashboardService = {
 
         const monthlyData = await prisma.$queryRawUnsafe(monthlyBreakdownQuery, ...monthlyBreakdownParams) as any[];
 
+        // Monthly percentages weigh marks by each course's attendance policy
+        const policy = await AttendancePolicyService.getPolicySql();
+        const monthlyPercentageQuery = `
+            SELECT 
+                TO_CHAR(a.date, 'YYYY-MM') as month,
+                ${policy.percentage} as percentage
+            FROM attendances a
+            ${policy.joins}
+            WHERE ${whereClause}
+            GROUP BY TO_CHAR(a.date, 'YYYY-MM')
+        `;
+
+        const monthlyPercentages = await prisma.$queryRawUnsafe(monthlyPercentageQuery, ...params) as any[];
+        const percentageByMonth = new Map(
+            monthlyPercentages.map((item: any) => [item.month, Math.round(Number(item.percentage ?? 0))])
+        );
+
         const monthlyBreakdown = monthlyData.reduce((acc: any[], item: any) => {
             const existingMonth = acc.find((m: any) => m.month === item.month);
             if (existingMonth) {
@@ -516,6 +534,7 @@ export const DashboardService = {
                     absent: 0,
                     late: 0,
                     excused: 0,
+                    percentage: percentageByMonth.get(item.month) ?? 0,
                     [item.status.toLowerCase() as string]: Number(item.count),
                 });
             }
@@ -631,27 +650,29 @@ export const DashboardService = {
         const { threshold = 75, page = 1, limit = 10 } = filters || {};
         const offset = (page - 1) * limit;
 
-        // Get students with low attendance
+        // Get students with low attendance, weighing marks by each course's attendance policy
+        const policy = await AttendancePolicyService.getPolicySql();
         const lowAttendanceQuery = `
             SELECT 
-                st.id as studentId,
-                u.name as studentName,
-                COUNT(CASE WHEN a.status = 'PRESENT' THEN 1 END) * 100.0 / COUNT(*) as attendancePercentage
+                st.id as "studentId",
+                u.name as "studentName",
+                ${policy.percentage} as "attendancePercentage"
             FROM students st
-            JOIN users u ON st.user_id = u.id
-            LEFT JOIN attendances a ON st.user_id = a.user_id
+            JOIN users u ON st."userId" = u.id
+            JOIN attendances a ON st."userId" = a."userId"
+            ${policy.joins}
             GROUP BY st.id, u.name
-            HAVING COUNT(CASE WHEN a.status = 'PRESENT' THEN 1 END) * 100.0 / COUNT(*) < ${threshold}
-            ORDER BY attendancePercentage ASC
-            LIMIT ${limit} OFFSET ${offset}
+            HAVING ${policy.percentage} < $1
+            ORDER BY "attendancePercentage" ASC
+            LIMIT $2 OFFSET $3
         `;
 
-        const lowAttendanceStudents = await prisma.$queryRawUnsafe(lowAttendanceQuery) as any[];
+        const lowAttendanceStudents = await prisma.$queryRawUnsafe(lowAttendanceQuery, threshold, limit, offset) as any[];
 
         return lowAttendanceStudents.map((student: any) => ({
-            studentId: student.studentid,
-            studentName: student.studentname,
-            attendancePercentage: Number(Number(student.attendancepercentage).toFixed(2)),
+            studentId: student.studentId,
+            studentName: student.studentName,
+            attendancePercentage: Number(Number(student.attendancePercentage).toFixed(2)),
             threshold,
         }));
     },
@@ -687,7 +708,7 @@ export const DashboardService = {
         // Get trend data (last 30 days)
         const trend = stats.monthlyBreakdown?.map(item => ({
             date: item.month + "-01",
-            percentage: Math.round((item.present / (item.present + item.absent + item.late + item.excused || 1)) * 100),
+            percentage: item.percentage,
             present: item.present,
             absent: item.absent,
             late: item.late,
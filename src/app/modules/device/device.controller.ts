@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { deviceServices } from './device.service';
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import { StatusCodes } from 'http-status-codes';
+
+/**
+ * Register the current device for attendance check-in
+ */
+const registerDevice = catchAsync(async (req: Request, res: Response) => {
+    const result = await deviceServices.registerDevice({
+        ...req.body,
+        userId: req.user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+    });
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: "Device registered successfully",
+        data: result,
+    });
+});
+
+/**
+ * Get my registered devices
+ */
+const getMyDevices = catchAsync(async (req: Request, res: Response) => {
+    const result = await deviceServices.getDevices(req.user.id);
+    sendResponse(res, {
+        message: "Devices retrieved successfully",
+        data: result,
+    });
+});
+
+/**
+ * Get a student's registered devices
+ */
+const getUserDevices = catchAsync(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const result = await deviceServices.getDevices(userId);
+    sendResponse(res, {
+        message: "Devices retrieved successfully",
+        data: result,
+    });
+});
+
+/**
+ * Ask an admin to clear my registered devices
+ */
+const requestReset = catchAsync(async (req: Request, res: Response) => {
+    const result = await deviceServices.requestReset({
+        userId: req.user.id,
+        reason: req.body.reason,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+    });
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: "Device reset requested successfully",
+        data: result,
+    });
+});
+
+/**
+ * Get device reset requests visible to the current user
+ */
+const getResetRequests = catchAsync(async (req: Request, res: Response) => {
+    const result = await deviceServices.getResetRequests(req.query, req.user.id, req.user.role);
+    sendResponse(res, {
+        message: "Device reset requests retrieved successfully",
+        data: result,
+    });
+});
+
+/**
+ * Approve or reject a device reset request
+ */
+const reviewResetRequest = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const result = await deviceServices.reviewResetRequest(id, {
+        ...req.body,
+        reviewedBy: req.user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+    });
+    sendResponse(res, {
+        message: `Device reset request ${result.status.toLowerCase()} successfully`,
+        data: result,
+    });
+});
+
+export const deviceControllers = {
+    registerDevice,
+    getMyDevices,
+    getUserDevices,
+    requestReset,
+    getResetRequests,
+    reviewResetRequest,
+};
@@ -0,0 +1,40 @@
+import { TrustedDevice, DeviceResetRequest } from '@prisma/client';
+
+// Export Prisma-generated types
+export type ITrustedDevice = TrustedDevice;
+export type IDeviceResetRequest = DeviceResetRequest;
+
+// Device reset request status type
+export type DeviceResetStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// Register a trusted device interface
+export interface IDeviceRegister {
+    userId: string;
+    fingerprint: string;
+    name?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// Request a device reset interface
+export interface IDeviceResetRequestCreate {
+    userId: string;
+    reason: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// Approve/Reject device reset interface
+export interface IDeviceResetReview {
+    status: Exclude<DeviceResetStatus, 'PENDING'>;
+    reviewedBy: string;
+    reviewNote?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// Device reset request filters interface
+export interface IDeviceResetFilters {
+    userId?: string;
+    status?: DeviceResetStatus;
+}
@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { deviceControllers } from './device.controller';
+import { deviceValidation } from './device.validation';
+import validateRequest from '../../middlewares/validateRequest';
+import AuthorizeRequest from '../../middlewares/auth';
+
+const router = Router();
+
+/**
+ * @description register the current device for attendance check-in
+ * @param {string} path - /api/devices/
+ * @param {function} middleware - ['AuthorizeRequest(STUDENT)', 'validateRequest(deviceValidation.registerDeviceSchema)']
+ * @param {function} controller - ['registerDevice']
+ * @returns {object} - router
+ * @access private - ['STUDENT']
+ * @method POST
+ */
+router.post(
+    '/',
+    AuthorizeRequest('STUDENT'),
+    validateRequest(deviceValidation.registerDeviceSchema),
+    deviceControllers.registerDevice
+);
+
+/**
+ * @description get my registered devices
+ * @param {string} path - /api/devices/
+ * @param {function} middleware - ['AuthorizeRequest(STUDENT)']
+ * @param {function} controller - ['getMyDevices']
+ * @returns {object} - router
+ * @access private - ['STUDENT']
+ * @method GET
+ */
+router.get(
+    '/',
+    AuthorizeRequest('STUDENT'),
+    deviceControllers.getMyDevices
+);
+
+/**
+ * @description request a reset of my registered devices
+ * @param {string} path - /api/devices/reset-requests
+ * @param {function} middleware - ['AuthorizeRequest(STUDENT)', 'validateRequest(deviceValidation.requestResetSchema)']
+ * @param {function} controller - ['requestReset']
+ * @returns {object} - router
+ * @access private - ['STUDENT']
+ * @method POST
+ */
+router.post(
+    '/reset-requests',
+    AuthorizeRequest('STUDENT'),
+    validateRequest(deviceValidation.requestResetSchema),
+    deviceControllers.requestReset
+);
+
+/**
+ * @description get device reset requests (students see their own)
+ * @param {string} path - /api/devices/reset-requests
+ * @param {function} middleware - ['AuthorizeRequest(STUDENT, ADMIN, SUPER_ADMIN)', 'validateRequest(deviceValidation.resetFiltersSchema)']
+ * @param {function} controller - ['getResetRequests']
+ * @returns {object} - router
+ * @access private - ['STUDENT', 'ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    '/reset-requests',
+    AuthorizeRequest('STUDENT', 'ADMIN', 'SUPER_ADMIN'),
+    validateRequest(deviceValidation.resetFiltersSchema),
+    deviceControllers.getResetRequests
+);
+
+/**
+ * @description approve or reject a device reset request
+ * @param {string} path - /api/devices/reset-requests/:id/review
+ * @param {function} middleware - ['AuthorizeRequest(ADMIN, SUPER_ADMIN)', 'validateRequest(deviceValidation.idParamSchema)', 'validateRequest(deviceValidation.reviewResetSchema)']
+ * @param {function} controller - ['reviewResetRequest']
+ * @returns {object} - router
+ * @access private - ['ADMIN', 'SUPER_ADMIN']
+ * @method PATCH
+ */
+router.patch(
+    '/reset-requests/:id/review',
+    AuthorizeRequest('ADMIN', 'SUPER_ADMIN'),
+    validateRequest(deviceValidation.idParamSchema),
+    validateRequest(deviceValidation.reviewResetSchema),
+    deviceControllers.reviewResetRequest
+);
+
+/**
+ * @description get a student's registered devices
+ * @param {string} path - /api/devices/user/:userId
+ * @param {function} middleware - ['AuthorizeRequest(ADMIN, SUPER_ADMIN)', 'validateRequest(deviceValidation.userIdParamSchema)']
+ * @param {function} controller - ['getUserDevices']
+ * @returns {object} - router
+ * @access private - ['ADMIN', 'SUPER_ADMIN']
+ * @method GET
+ */
+router.get(
+    '/user/:userId',
+    AuthorizeRequest('ADMIN', 'SUPER_ADMIN'),
+    validateRequest(deviceValidation.userIdParamSchema),
+    deviceControllers.getUserDevices
+);
+
+export const deviceRoutes = router;
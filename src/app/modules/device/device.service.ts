@@ -0,0 +1,229 @@
+import {
+    IDeviceRegister,
+    IDeviceResetFilters,
+    IDeviceResetRequestCreate,
+    IDeviceResetReview,
+} from './device.interface';
+import AppError from '../../errors/AppError';
+import { StatusCodes } from 'http-status-codes';
+import prisma from '../../config/prisma';
+import { SettingsService } from '../settings/settings.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.interface';
+import { notificationServices } from '../notification/notification.service';
+
+/**
+ * Register a trusted device for attendance check-in, up to the attendance.maxTrustedDevices limit.
+ * A device removed by an earlier reset can be registered again.
+ */
+const registerDevice = async (data: IDeviceRegister) => {
+    const existing = await prisma.trustedDevice.findUnique({
+        where: { userId_fingerprint: { userId: data.userId, fingerprint: data.fingerprint } },
+    });
+
+    if (existing?.isActive) {
+        throw new AppError(StatusCodes.CONFLICT, 'This device is already registered');
+    }
+
+    const maxDevices = await SettingsService.getNumberSetting('attendance.maxTrustedDevices');
+    const activeDevices = await prisma.trustedDevice.count({
+        where: { userId: data.userId, isActive: true },
+    });
+
+    if (activeDevices >= maxDevices) {
+        throw new AppError(
+            StatusCodes.FORBIDDEN,
+            `You can register at most ${maxDevices} device(s); request a device reset to use a new one`
+        );
+    }
+
+    const device = await prisma.trustedDevice.upsert({
+        where: { userId_fingerprint: { userId: data.userId, fingerprint: data.fingerprint } },
+        create: {
+            userId: data.userId,
+            fingerprint: data.fingerprint,
+            name: data.name,
+            ipAddress: data.ipAddress,
+            userAgent: data.userAgent,
+        },
+        update: {
+            name: data.name,
+            ipAddress: data.ipAddress,
+            userAgent: data.userAgent,
+            isActive: true,
+            revokedAt: null,
+        },
+    });
+
+    await AuditService.createAuditLog({
+        userId: data.userId,
+        action: AuditAction.DEVICE_REGISTERED,
+        entity: 'Device',
+        entityId: device.id,
+        changes: { after: { name: device.name, userAgent: device.userAgent } },
+        ipAddress: data.ipAddress,
+        userAgent: data.userAgent,
+    });
+
+    return device;
+};
+
+/**
+ * Get a student's registered devices
+ */
+const getDevices = async (userId: string) => {
+    return prisma.trustedDevice.findMany({
+        where: { userId },
+        orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+    });
+};
+
+/**
+ * Refuse check-ins from unregistered devices while the attendance.deviceBinding policy is on
+ */
+const assertTrustedDevice = async (userId: string, fingerprint?: string): Promise<void> => {
+    const deviceBinding = await SettingsService.getBooleanSetting('attendance.deviceBinding');
+    if (!deviceBinding) {
+        return;
+    }
+
+    if (!fingerprint) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Check-in requires a registered device');
+    }
+
+    const device = await prisma.trustedDevice.findUnique({
+        where: { userId_fingerprint: { userId, fingerprint } },
+    });
+
+    if (!device?.isActive) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Check in from one of your registered devices');
+    }
+
+    await prisma.trustedDevice.update({
+        where: { id: device.id },
+        data: { lastUsedAt: new Date() },
+    });
+};
+
+/**
+ * Ask an admin to clear the student's registered devices
+ */
+const requestReset = async (data: IDeviceResetRequestCreate) => {
+    const pending = await prisma.deviceResetRequest.findFirst({
+        where: { userId: data.userId, status: 'PENDING' },
+    });
+
+    if (pending) {
+        throw new AppError(StatusCodes.CONFLICT, 'A device reset request is already pending');
+    }
+
+    const request = await prisma.deviceResetRequest.create({
+        data: { userId: data.userId, reason: data.reason },
+    });
+
+    await AuditService.createAuditLog({
+        userId: data.userId,
+        action: AuditAction.DEVICE_RESET_REQUESTED,
+        entity: 'Device',
+        entityId: request.id,
+        changes: { after: { reason: data.reason } },
+        ipAddress: data.ipAddress,
+        userAgent: data.userAgent,
+    });
+
+    return request;
+};
+
+/**
+ * Get device reset requests; students only see their own
+ */
+const getResetRequests = async (filters: IDeviceResetFilters, userId: string, role: string) => {
+    return prisma.deviceResetRequest.findMany({
+        where: {
+            userId: role === 'STUDENT' ? userId : filters.userId,
+            status: filters.status,
+        },
+        include: {
+            user: { select: { id: true, name: true, email: true } },
+            reviewer: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+    });
+};
+
+/**
+ * Approve or reject a device reset request.
+ * Approval deactivates every registered device so the student can register new ones.
+ */
+const reviewResetRequest = async (id: string, review: IDeviceResetReview) => {
+    const request = await prisma.deviceResetRequest.findUnique({ where: { id } });
+
+    if (!request) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Device reset request not found');
+    }
+
+    if (request.status !== 'PENDING') {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Device reset request has already been reviewed');
+    }
+
+    const approved = review.status === 'APPROVED';
+    const now = new Date();
+
+    const update = prisma.deviceResetRequest.update({
+        where: { id },
+        data: {
+            status: review.status,
+            reviewedBy: review.reviewedBy,
+            reviewedAt: now,
+            reviewNote: review.reviewNote,
+        },
+    });
+
+    let result;
+    let devicesRevoked = 0;
+    if (approved) {
+        const [updated, revoked] = await prisma.$transaction([
+            update,
+            prisma.trustedDevice.updateMany({
+                where: { userId: request.userId, isActive: true },
+                data: { isActive: false, revokedAt: now },
+            }),
+        ]);
+        result = updated;
+        devicesRevoked = revoked.count;
+    } else {
+        result = await update;
+    }
+
+    await AuditService.createAuditLog({
+        userId: review.reviewedBy,
+        action: approved ? AuditAction.DEVICE_RESET_APPROVED : AuditAction.DEVICE_RESET_REJECTED,
+        entity: 'Device',
+        entityId: request.id,
+        changes: {
+            before: { status: request.status },
+            after: { status: review.status, studentId: request.userId, devicesRevoked },
+        },
+        ipAddress: review.ipAddress,
+        userAgent: review.userAgent,
+    });
+
+    await notificationServices.sendNotification({
+        recipientId: request.userId,
+        title: `Device reset ${approved ? 'approved' : 'rejected'}`,
+        message: approved
+            ? 'Your registered devices were cleared. Register the device you want to use for attendance check-in.'
+            : `Your device reset request was rejected.${review.reviewNote ? ` Note: ${review.reviewNote}` : ''}`,
+    });
+
+    return result;
+};
+
+export const deviceServices = {
+    registerDevice,
+    getDevices,
+    assertTrustedDevice,
+    requestReset,
+    getResetRequests,
+    reviewResetRequest,
+};
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+// Register device validation schema
+const registerDeviceSchema = z.object({
+    body: z.object({
+        fingerprint: z.string().min(1, 'Device fingerprint is required').max(255, 'Device fingerprint must be less than 255 characters'),
+        name: z.string().max(100, 'Device name must be less than 100 characters').optional(),
+    }),
+});
+
+// Device reset request validation schema
+const requestResetSchema = z.object({
+    body: z.object({
+        reason: z.string().min(5, 'Reason must be at least 5 characters').max(500, 'Reason must be less than 500 characters'),
+    }),
+});
+
+// Review device reset validation schema
+const reviewResetSchema = z.object({
+    body: z.object({
+        status: z.enum(['APPROVED', 'REJECTED']),
+        reviewNote: z.string().max(500, 'Review note must be less than 500 characters').optional(),
+    }),
+});
+
+// Device reset filters validation schema
+const resetFiltersSchema = z.object({
+    query: z.object({
+        userId: z.string().optional(),
+        status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+    }),
+});
+
+// ID parameter validation schema
+const idParamSchema = z.object({
+    params: z.object({
+        id: z.string().min(1, 'ID is required'),
+    }),
+});
+
+// User ID parameter validation schema
+const userIdParamSchema = z.object({
+    params: z.object({
+        userId: z.string().min(1, 'User ID is required'),
+    }),
+});
+
+export const deviceValidation = {
+    registerDeviceSchema,
+    requestResetSchema,
+    reviewResetSchema,
+    resetFiltersSchema,
+    idParamSchema,
+    userIdParamSchema,
+};
@@ -0,0 +1,5 @@
+export * from './device.interface';
+export * from './device.service';
+export * from './device.controller';
+export * from './device.validation';
+export { deviceRoutes } from './device.route';
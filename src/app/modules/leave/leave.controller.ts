@@ -6,10 +6,15 @@ import { StatusCodes } from 'http-status-codes';
 import { leaveValidation } from './leave.validation';
 
 /**
- * Submit a new leave request
+ * Submit a new leave request, with supporting documents when sent as multipart
  */
 const submitLeave = catchAsync(async (req: Request, res: Response) => {
-    const result = await leaveServices.submitLeave(req.body);
+    const { startDate, endDate, reason, type } = req.body;
+    const result = await leaveServices.submitLeave(
+        req.user.id,
+        { startDate, endDate, reason, type },
+        req.files as Express.Multer.File[] | undefined
+    );
     sendResponse(res, {
         statusCode: StatusCodes.CREATED,
         message: "Leave request submitted successfully",
@@ -109,6 +114,28 @@ const deleteLeave = catchAsync(async (req: Request, res: Response) => {
     });
 });
 
+/**
+ * Upload supporting documents for a leave request
+ */
+const uploadDocuments = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const result = await leaveServices.addDocuments(id, (req.files as Express.Multer.File[] | undefined) ?? [], req.user.id);
+    sendResponse(res, {
+        statusCode: StatusCodes.CREATED,
+        message: "Leave documents uploaded successfully",
+        data: result,
+    });
+});
+
+/**
+ * Download a supporting document of a leave request
+ */
+const downloadDocument = catchAsync(async (req: Request, res: Response) => {
+    const { id, documentId } = req.params;
+    const document = await leaveServices.getDocument(id, documentId, req.user.id, req.user.role);
+    res.download(document.filePath, document.fileName);
+});
+
 /**
  * Get leave statistics
  */
@@ -152,6 +179,19 @@ const getMyLeaves = catchAsync(async (req: Request, res: Response) => {
     });
 });
 
+/**
+ * Get my leave balance (for the current user)
+ */
+const getMyBalance = catchAsync(async (req: Request, res: Response) => {
+    const result = await leaveServices.getMyBalance(req.user.id);
+    sendResponse(res, {
+        message: result
+            ? "Your leave balance retrieved successfully"
+            : "No leave policy is active for this academic year",
+        data: result,
+    });
+});
+
 /**
  * Get pending leave requests (for teachers/admins)
  */
@@ -244,9 +284,12 @@ export const leaveControllers = {
     approveLeave,
     rejectLeave,
     deleteLeave,
+    uploadDocuments,
+    downloadDocument,
     getLeaveStats,
     getLeaveDashboard,
     getMyLeaves,
+    getMyBalance,
     getPendingLeaves,
     bulkApproveLeaves,
     bulkRejectLeaves,
@@ -10,6 +10,21 @@ export type LeaveStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
 // Leave type enum
 export type LeaveType = 'SICK' | 'PERSONAL' | 'VACATION' | 'ACADEMIC' | 'EMERGENCY';
 
+// Why a leave request breaks the leave policy or balance, sent to the client as errorCode
+export type LeavePolicyViolation =
+    | 'LEAVE_START_IN_PAST'
+    | 'LEAVE_ADVANCE_NOTICE'
+    | 'LEAVE_NO_WORKING_DAYS'
+    | 'LEAVE_TOO_LONG'
+    | 'LEAVE_DOCUMENT_REQUIRED'
+    | 'LEAVE_BALANCE_EXCEEDED';
+
+// Folder of the private uploads directory supporting documents are kept in
+export const LEAVE_DOCUMENTS_FOLDER = 'leave-documents';
+
+// Most supporting documents a leave request can have
+export const MAX_LEAVE_DOCUMENTS = 5;
+
 // Leave with relationships
 export interface ILeaveWithRelations extends ILeave {
     user: User;
@@ -33,6 +48,8 @@ export interface ILeaveRequest {
     rejectionReason?: string;
     documents?: string;
     isPaid: boolean;
+    academicYear?: string;
+    balanceDays: number;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -58,6 +75,14 @@ export interface ILeaveRequestCreate {
     isPaid?: boolean;
 }
 
+// Leave request as its requester submits it, with the dates as sent
+export interface ILeaveSubmission {
+    startDate: Date | string;
+    endDate: Date | string;
+    reason: string;
+    type?: LeaveType;
+}
+
 // Update Leave Request interface
 export interface ILeaveRequestUpdate {
     startDate?: Date;
@@ -130,6 +155,7 @@ export interface ILeavePolicy {
     maxPersonalLeave: number;
     maxVacationLeave: number;
     requireDocuments: boolean;
+    sickDocumentDays: number;
     minAdvanceDays: number;
     maxConsecutiveDays: number;
     isActive: boolean;
@@ -146,6 +172,7 @@ export interface ILeavePolicyCreate {
     maxPersonalLeave?: number;
     maxVacationLeave?: number;
     requireDocuments?: boolean;
+    sickDocumentDays?: number;
     minAdvanceDays?: number;
     maxConsecutiveDays?: number;
 }
@@ -158,6 +185,7 @@ export interface ILeavePolicyUpdate {
     maxPersonalLeave?: number;
     maxVacationLeave?: number;
     requireDocuments?: boolean;
+    sickDocumentDays?: number;
     minAdvanceDays?: number;
     maxConsecutiveDays?: number;
     isActive?: boolean;
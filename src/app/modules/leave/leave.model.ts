@@ -1,5 +1,14 @@
 import prisma from '../../config/prisma';
 
+// Supporting documents as clients see them; the stored file name stays on the server
+export const LEAVE_DOCUMENT_SELECT = {
+    id: true,
+    fileName: true,
+    mimeType: true,
+    size: true,
+    createdAt: true,
+} as const;
+
 // Leave model operations
 export const LeaveModel = {
     // Create a new leave request
@@ -8,6 +17,7 @@ export const LeaveModel = {
             data,
             include: {
                 user: true,
+                attachments: { select: LEAVE_DOCUMENT_SELECT },
             },
         });
     },
@@ -18,6 +28,7 @@ export const LeaveModel = {
             where: { id },
             include: {
                 user: true,
+                attachments: { select: LEAVE_DOCUMENT_SELECT },
             },
         });
     },
@@ -83,20 +94,28 @@ export const LeaveModel = {
         });
     },
 
-    // Approve or reject leave request
-    updateStatus: async (id: string, status: 'APPROVED' | 'REJECTED' | 'PENDING', approvedBy: string, rejectionReason?: string) => {
-        return await prisma.leaveRequest.update({
-            where: { id },
+    // Move a leave request from one status to another, only while it still has the expected one;
+    // false when someone else changed it first
+    updateStatus: async (
+        id: string,
+        from: 'APPROVED' | 'REJECTED' | 'PENDING',
+        status: 'APPROVED' | 'REJECTED' | 'PENDING',
+        approvedBy: string,
+        rejectionReason?: string,
+        balance: { academicYear?: string; balanceDays?: number } = {}
+    ) => {
+        const { count } = await prisma.leaveRequest.updateMany({
+            where: { id, status: from },
             data: {
                 status,
                 approvedBy,
                 approvedAt: new Date(),
                 ...(rejectionReason && { rejectionReason }),
-            },
-            include: {
-                user: true,
+                ...balance,
             },
         });
+
+        return count === 1;
     },
 
     // Get leave statistics
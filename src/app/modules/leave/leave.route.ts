@@ -3,6 +3,8 @@ import { leaveControllers } from './leave.controller';
 import { leaveValidation } from './leave.validation';
 import validateRequest from '../../middlewares/validateRequest';
 import AuthorizeRequest from '../../middlewares/auth';
+import privateUpload from '../../middlewares/privateUpload';
+import { LEAVE_DOCUMENTS_FOLDER, MAX_LEAVE_DOCUMENTS } from './leave.interface';
 
 const router = Router();
 
@@ -51,6 +53,21 @@ router.get(
     leaveControllers.getMyLeaves
 );
 
+/**
+ * @description get my leave balance for the current academic year
+ * @param {string} path - /api/leave/my-balance
+ * @param {function} middleware - ['AuthorizeRequest()']
+ * @param {function} controller - ['getMyBalance']
+ * @returns {object} - router
+ * @access private
+ * @method GET
+ */
+router.get(
+    '/my-balance',
+    AuthorizeRequest(),
+    leaveControllers.getMyBalance
+);
+
 /**
  * @description get pending leave requests
  * @param {string} path - /api/leave/pending
@@ -67,9 +84,9 @@ router.get(
 );
 
 /**
- * @description submit a new leave request
+ * @description submit a new leave request, as JSON or as multipart with supporting documents in the "documents" field
  * @param {string} path - /api/leave/
- * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(leaveValidation.createLeaveSchema)']
+ * @param {function} middleware - ['AuthorizeRequest()', 'privateUpload(leave-documents, documents)', 'validateRequest(leaveValidation.createLeaveSchema)']
  * @param {function} controller - ['submitLeave']
  * @returns {object} - router
  * @access private
@@ -78,6 +95,7 @@ router.get(
 router.post(
     '/',
     AuthorizeRequest(),
+    privateUpload(LEAVE_DOCUMENTS_FOLDER, 'documents', MAX_LEAVE_DOCUMENTS),
     validateRequest(leaveValidation.createLeaveSchema),
     leaveControllers.submitLeave
 );
@@ -147,6 +165,39 @@ router.delete(
     leaveControllers.deleteLeave
 );
 
+/**
+ * @description upload supporting documents for a pending leave request in the multipart "documents" field
+ * @param {string} path - /api/leave/:id/documents
+ * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(leaveValidation.idParamSchema)', 'privateUpload(leave-documents, documents)']
+ * @param {function} controller - ['uploadDocuments']
+ * @returns {object} - router
+ * @access private
+ * @method POST
+ */
+router.post(
+    '/:id/documents',
+    AuthorizeRequest(),
+    validateRequest(leaveValidation.idParamSchema),
+    privateUpload(LEAVE_DOCUMENTS_FOLDER, 'documents', MAX_LEAVE_DOCUMENTS),
+    leaveControllers.uploadDocuments
+);
+
+/**
+ * @description download a supporting document of a leave request, for the requester, its approvers and admins
+ * @param {string} path - /api/leave/:id/documents/:documentId
+ * @param {function} middleware - ['AuthorizeRequest()', 'validateRequest(leaveValidation.documentParamSchema)']
+ * @param {function} controller - ['downloadDocument']
+ * @returns {object} - router
+ * @access private
+ * @method GET
+ */
+router.get(
+    '/:id/documents/:documentId',
+    AuthorizeRequest(),
+    validateRequest(leaveValidation.documentParamSchema),
+    leaveControllers.downloadDocument
+);
+
 /**
  * @description approve leave request
  * @param {string} path - /api/leave/:id/approve
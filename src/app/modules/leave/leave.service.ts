@@ -1,49 +1,76 @@
-import { LeaveModel } from './leave.model';
+import fs from 'fs';
+import { LEAVE_DOCUMENT_SELECT, LeaveModel } from './leave.model';
+import { LeaveBalanceService } from './leaveBalance.service';
+import { LeavePolicyService } from './leavePolicy.service';
 import {
     ILeave,
     ILeaveFilters,
     ILeaveStats,
     ILeaveDashboard,
+    ILeaveSubmission,
+    LeaveType,
+    LEAVE_DOCUMENTS_FOLDER,
+    MAX_LEAVE_DOCUMENTS,
 } from './leave.interface';
 import AppError from '../../errors/AppError';
 import { StatusCodes } from 'http-status-codes';
 import prisma from '../../config/prisma';
+import { getPeriodKey } from '../attendance/attendance.model';
+import { IAttendancePeriod } from '../attendance/attendance.interface';
+import { AttendanceLockService } from '../attendance/attendanceLock.service';
+import { AttendanceCancellationService } from '../attendance/attendanceCancellation.service';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { fromZonedTime, getZonedParts, getZonedWeekday, startOfZonedDay } from '../../utils/zonedTime';
+import { getPrivateFilePath } from '../../middlewares/privateUpload';
+
+const isAdmin = (role: string) => ['ADMIN', 'SUPER_ADMIN'].includes(role);
+
+const toDocumentRecords = (files: Express.Multer.File[], uploadedBy: string) => files.map((file) => ({
+    fileName: file.originalname,
+    storedName: file.filename,
+    mimeType: file.mimetype,
+    size: file.size,
+    uploadedBy,
+}));
+
+const removeDocumentFiles = async (storedNames: string[]) => {
+    await Promise.all(storedNames.map((storedName) =>
+        fs.promises.unlink(getPrivateFilePath(LEAVE_DOCUMENTS_FOLDER, storedName)).catch(() => undefined)
+    ));
+};
 
 /**
- * Submit a new leave request
+ * Submit a new leave request for a user, with any supporting documents uploaded along with it
  */
-const submitLeave = async (data: any): Promise<ILeave> => {
+const submitLeave = async (userId: string, data: ILeaveSubmission, files: Express.Multer.File[] = []): Promise<ILeave> => {
     // Check if user exists
     const user = await prisma.user.findUnique({
-        where: { id: data.userId },
+        where: { id: userId },
     });
 
     if (!user) {
         throw new AppError(StatusCodes.NOT_FOUND, 'User not found');
     }
 
-    // Validate date range
-    const startDate = new Date(data.startDate);
-    const endDate = new Date(data.endDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (startDate < today) {
-        throw new AppError(StatusCodes.BAD_REQUEST, 'Start date cannot be in the past');
-    }
-
-    // Calculate number of days
-    const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-
-    if (diffDays > 30) {
-        throw new AppError(StatusCodes.BAD_REQUEST, 'Leave cannot exceed 30 days');
-    }
+    // Validate date range; leave covers whole days in the user's time zone
+    const scope = await AcademicCalendarService.getUserScope(userId);
+    const timeZone = await AcademicCalendarService.getTimeZone(scope.departmentId);
+    const startDate = startOfZonedDay(data.startDate, timeZone);
+    const endDate = startOfZonedDay(data.endDate, timeZone);
+    const type: LeaveType = data.type ?? 'PERSONAL';
+
+    // The leave follows the policy of, and is counted against the balance of, the academic year it starts in
+    const academicYear = await LeaveBalanceService.getAcademicYear(scope, startDate, timeZone);
+    const days = await LeavePolicyService.assertLeaveAllowed(
+        { type, startDate, endDate, hasDocuments: files.length > 0, academicYear },
+        scope,
+        timeZone
+    );
 
     // Check for overlapping leave requests
     const overlappingLeaves = await prisma.leaveRequest.findMany({
         where: {
-            userId: data.userId,
+            userId,
             status: { in: ['PENDING', 'APPROVED'] },
             OR: [
                 {
@@ -72,7 +99,17 @@ const submitLeave = async (data: any): Promise<ILeave> => {
         throw new AppError(StatusCodes.CONFLICT, 'You already have a leave request for this period');
     }
 
-    const leave = await LeaveModel.create(data);
+    await LeaveBalanceService.assertAvailable(userId, academicYear, type, days);
+
+    const leave = await LeaveModel.create({
+        userId,
+        startDate,
+        endDate,
+        reason: data.reason,
+        type,
+        academicYear,
+        attachments: { create: toDocumentRecords(files, userId) },
+    });
     return leave as ILeave;
 };
 
@@ -92,27 +129,34 @@ const updateLeave = async (id: string, data: any): Promise<ILeave> => {
         throw new AppError(StatusCodes.BAD_REQUEST, 'Cannot update a processed leave request');
     }
 
-    // Validate date range if provided
-    if (data.startDate || data.endDate) {
-        const startDate = data.startDate ? new Date(data.startDate) : existingLeave.startDate;
-        const endDate = data.endDate ? new Date(data.endDate) : existingLeave.endDate;
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        if (startDate < today) {
-            throw new AppError(StatusCodes.BAD_REQUEST, 'Start date cannot be in the past');
-        }
-
-        // Calculate number of days
-        const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-
-        if (diffDays > 30) {
-            throw new AppError(StatusCodes.BAD_REQUEST, 'Leave cannot exceed 30 days');
-        }
+    // Revalidate against the policy and balance if the dates or type change;
+    // leave covers whole days in the user's time zone
+    const dates: { startDate?: Date; endDate?: Date; academicYear?: string } = {};
+    if (data.startDate || data.endDate || data.type) {
+        const scope = await AcademicCalendarService.getUserScope(existingLeave.userId);
+        const timeZone = await AcademicCalendarService.getTimeZone(scope.departmentId);
+        dates.startDate = startOfZonedDay(data.startDate ?? existingLeave.startDate, timeZone);
+        dates.endDate = startOfZonedDay(data.endDate ?? existingLeave.endDate, timeZone);
+
+        const academicYear = await LeaveBalanceService.getAcademicYear(scope, dates.startDate, timeZone);
+        const type = data.type ?? existingLeave.type;
+        const days = await LeavePolicyService.assertLeaveAllowed(
+            {
+                type,
+                startDate: dates.startDate,
+                endDate: dates.endDate,
+                hasDocuments: existingLeave.attachments.length > 0,
+                academicYear,
+            },
+            scope,
+            timeZone,
+            { checkNotice: Boolean(data.startDate || data.endDate) }
+        );
+        await LeaveBalanceService.assertAvailable(existingLeave.userId, academicYear, type, days);
+        dates.academicYear = academicYear;
     }
 
-    const updatedLeave = await LeaveModel.update(id, data);
+    const updatedLeave = await LeaveModel.update(id, { ...data, ...dates });
     return updatedLeave as ILeave;
 };
 
@@ -138,7 +182,9 @@ const getLeaves = async (filters: ILeaveFilters) => {
 };
 
 /**
- * Approve or reject leave request
+ * Approve or reject leave request. Approving takes the leave's working days from the user's balance;
+ * rejecting an approved leave reverts the approval and gives them back, while the attendance
+ * already excused for it is left for teachers to correct.
  */
 const processLeaveRequest = async (
     id: string,
@@ -153,8 +199,9 @@ const processLeaveRequest = async (
         throw new AppError(StatusCodes.NOT_FOUND, 'Leave request not found');
     }
 
-    // Check if leave is still pending
-    if (existingLeave.status !== 'PENDING') {
+    // Check if leave is still pending, or approved and being reverted
+    const isRevert = existingLeave.status === 'APPROVED' && status === 'REJECTED';
+    if (existingLeave.status !== 'PENDING' && !isRevert) {
         throw new AppError(StatusCodes.BAD_REQUEST, 'Leave request has already been processed');
     }
 
@@ -171,12 +218,50 @@ const processLeaveRequest = async (
         throw new AppError(StatusCodes.FORBIDDEN, 'Only teachers and admins can approve leave requests');
     }
 
-    // If approving, update attendance records for the leave period
+    const scope = await AcademicCalendarService.getUserScope(existingLeave.userId);
+    const academicYear = existingLeave.academicYear ?? await LeaveBalanceService.getAcademicYear(
+        scope,
+        existingLeave.startDate,
+        await AcademicCalendarService.getTimeZone(scope.departmentId)
+    );
+
+    // Claim the status change before touching the balance, so concurrent approvals or an approval
+    // racing a revert cannot take or give back the days twice
+    const claimed = await LeaveModel.updateStatus(id, existingLeave.status, status, approvedBy, rejectionReason, { academicYear });
+    if (!claimed) {
+        throw new AppError(StatusCodes.CONFLICT, 'Leave request was processed by someone else in the meantime');
+    }
+
+    let balanceDays = 0;
+
+    // If approving, take the days from the balance and update attendance records for the leave period
     if (status === 'APPROVED') {
-        await updateAttendanceForApprovedLeave(existingLeave);
+        try {
+            const days = await AcademicCalendarService.countWorkingDays(scope, existingLeave.startDate, existingLeave.endDate);
+            balanceDays = await LeaveBalanceService.deduct(existingLeave.userId, academicYear, existingLeave.type, days);
+
+            try {
+                await updateAttendanceForApprovedLeave(existingLeave);
+            } catch (error) {
+                await LeaveBalanceService.restore(existingLeave.userId, academicYear, existingLeave.type, balanceDays);
+                throw error;
+            }
+        } catch (error) {
+            // Put the request back as it was, so it can be processed again
+            await LeaveModel.update(id, {
+                status: existingLeave.status,
+                approvedBy: existingLeave.approvedBy,
+                approvedAt: existingLeave.approvedAt,
+            });
+            throw error;
+        }
     }
 
-    const updatedLeave = await LeaveModel.updateStatus(id, status, approvedBy, rejectionReason);
+    if (isRevert) {
+        await LeaveBalanceService.restore(existingLeave.userId, academicYear, existingLeave.type, existingLeave.balanceDays);
+    }
+
+    const updatedLeave = await LeaveModel.update(id, { balanceDays });
     return updatedLeave as ILeave;
 };
 
@@ -196,7 +281,106 @@ const deleteLeave = async (id: string): Promise<void> => {
         throw new AppError(StatusCodes.BAD_REQUEST, 'Cannot delete a processed leave request');
     }
 
+    const documents = await prisma.leaveDocument.findMany({
+        where: { leaveRequestId: id },
+        select: { storedName: true },
+    });
+
     await LeaveModel.delete(id);
+    await removeDocumentFiles(documents.map((document) => document.storedName));
+};
+
+/**
+ * Attach supporting documents to a pending leave request; only the requester can add them
+ */
+const addDocuments = async (id: string, files: Express.Multer.File[], userId: string) => {
+    const leave = await LeaveModel.findById(id);
+    if (!leave) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Leave request not found');
+    }
+
+    if (leave.userId !== userId) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'Only the requester can add documents to a leave request');
+    }
+
+    if (leave.status !== 'PENDING') {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'Documents can only be added to a pending leave request');
+    }
+
+    if (files.length === 0) {
+        throw new AppError(StatusCodes.BAD_REQUEST, 'No documents were uploaded');
+    }
+
+    if (leave.attachments.length + files.length > MAX_LEAVE_DOCUMENTS) {
+        throw new AppError(StatusCodes.BAD_REQUEST, `A leave request can have at most ${MAX_LEAVE_DOCUMENTS} documents`);
+    }
+
+    await prisma.leaveDocument.createMany({
+        data: toDocumentRecords(files, userId).map((document) => ({ ...document, leaveRequestId: id })),
+    });
+
+    return prisma.leaveDocument.findMany({
+        where: { leaveRequestId: id },
+        select: LEAVE_DOCUMENT_SELECT,
+        orderBy: { createdAt: 'asc' },
+    });
+};
+
+/**
+ * Whether a user may see a leave's documents: the requester, whoever processed it, admins,
+ * and the teachers who may approve it, being the requester's course teachers and department head
+ */
+const canViewDocuments = async (leave: { userId: string; approvedBy: string | null }, userId: string, role: string) => {
+    if (isAdmin(role) || leave.userId === userId || leave.approvedBy === userId) {
+        return true;
+    }
+
+    if (role !== 'TEACHER') {
+        return false;
+    }
+
+    const scope = await AcademicCalendarService.getUserScope(leave.userId);
+    const [course, department] = await Promise.all([
+        prisma.course.findFirst({
+            where: { teacherId: userId, enrollments: { some: { studentId: leave.userId } } },
+            select: { id: true },
+        }),
+        scope.departmentId
+            ? prisma.department.findFirst({
+                where: { id: scope.departmentId, head: { userId } },
+                select: { id: true },
+            })
+            : null,
+    ]);
+
+    return Boolean(course || department);
+};
+
+/**
+ * Get a supporting document of a leave request for download
+ */
+const getDocument = async (id: string, documentId: string, userId: string, role: string) => {
+    const leave = await prisma.leaveRequest.findUnique({
+        where: { id },
+        select: { userId: true, approvedBy: true },
+    });
+    if (!leave) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Leave request not found');
+    }
+
+    if (!await canViewDocuments(leave, userId, role)) {
+        throw new AppError(StatusCodes.FORBIDDEN, 'You are not allowed to view the documents of this leave request');
+    }
+
+    const document = await prisma.leaveDocument.findFirst({
+        where: { id: documentId, leaveRequestId: id },
+    });
+    const filePath = document && getPrivateFilePath(LEAVE_DOCUMENTS_FOLDER, document.storedName);
+    if (!document || !filePath || !fs.existsSync(filePath)) {
+        throw new AppError(StatusCodes.NOT_FOUND, 'Document not found');
+    }
+
+    return { filePath, fileName: document.fileName, mimeType: document.mimeType };
 };
 
 /**
@@ -229,10 +413,10 @@ const getLeaveDashboard = async (): Promise<ILeaveDashboard> => {
         where: { status: 'REJECTED' },
     });
 
-    // Get requests this month
-    const currentMonth = new Date();
-    currentMonth.setDate(1);
-    currentMonth.setHours(0, 0, 0, 0);
+    // Get requests this month, in the institution's time zone
+    const timeZone = await AcademicCalendarService.getTimeZone();
+    const now = getZonedParts(new Date(), timeZone);
+    const currentMonth = fromZonedTime(timeZone, now.year, now.month, 1);
 
     const requestsThisMonth = await prisma.leaveRequest.count({
         where: {
@@ -243,13 +427,8 @@ const getLeaveDashboard = async (): Promise<ILeaveDashboard> => {
     // Get monthly trend (last 6 months)
     const monthlyTrend = [];
     for (let i = 5; i >= 0; i--) {
-        const date = new Date();
-        date.setMonth(date.getMonth() - i);
-        date.setDate(1);
-        date.setHours(0, 0, 0, 0);
-
-        const nextMonth = new Date(date);
-        nextMonth.setMonth(nextMonth.getMonth() + 1);
+        const date = fromZonedTime(timeZone, now.year, now.month - i, 1);
+        const nextMonth = fromZonedTime(timeZone, now.year, now.month - i + 1, 1);
 
         const [approved, rejected, pending] = await Promise.all([
             prisma.leaveRequest.count({
@@ -273,7 +452,7 @@ const getLeaveDashboard = async (): Promise<ILeaveDashboard> => {
         ]);
 
         monthlyTrend.push({
-            month: date.toLocaleDateString('en', { month: 'short', year: 'numeric' }),
+            month: date.toLocaleDateString('en', { month: 'short', year: 'numeric', timeZone }),
             approved,
             rejected,
             pending,
@@ -310,44 +489,86 @@ const updateAttendanceForApprovedLeave = async (leave: any): Promise<void> => {
     const startDate = new Date(leave.startDate);
     const endDate = new Date(leave.endDate);
 
-    // Get all courses the student is enrolled in
+    // Get all courses the student is enrolled in, with their active weekly schedule slots
     const enrollments = await prisma.courseEnrollment.findMany({
         where: { studentId: leave.userId },
-        include: { course: true },
+        include: {
+            course: {
+                include: { schedules: { where: { isActive: true } } },
+            },
+        },
     });
 
-    // For each day of leave, mark attendance as EXCUSED for all courses
-    for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
-        const currentDate = new Date(date);
-        currentDate.setHours(0, 0, 0, 0);
+    // Refuse the whole approval before writing anything if any course is locked over the leave period
+    for (const enrollment of enrollments) {
+        await AttendanceLockService.assertNotLocked(enrollment.courseId, startDate, endDate);
+    }
 
-        for (const enrollment of enrollments) {
-            // Check if there's a class on this day (this would need schedule data)
-            // For now, we'll mark all days as EXCUSED
-            await prisma.attendance.upsert({
+    // Each course follows the calendar and time zone of its own department and batch
+    for (const enrollment of enrollments) {
+        const { departmentId, batchId } = enrollment.course;
+        const calendar = await AcademicCalendarService.loadCalendar({ departmentId, batchId }, startDate, endDate);
+        const notes = `Approved leave: ${leave.reason}`;
+
+        // For each day of leave, mark every class period of the course as EXCUSED
+        for (const currentDate of AcademicCalendarService.eachDay(startDate, endDate, calendar.timeZone)) {
+            // Periods already recorded for the day (sessions, schedule slots or day-level records)
+            const existing = await prisma.attendance.updateMany({
                 where: {
-                    userId_courseId_date: {
-                        userId: leave.userId,
-                        courseId: enrollment.courseId,
-                        date: currentDate,
-                    },
-                },
-                update: {
-                    status: 'EXCUSED',
-                    notes: `Approved leave: ${leave.reason}`,
-                },
-                create: {
                     userId: leave.userId,
                     courseId: enrollment.courseId,
                     date: currentDate,
-                    status: 'EXCUSED',
-                    notes: `Approved leave: ${leave.reason}`,
                 },
+                data: { status: 'EXCUSED', notes },
+            });
+
+            if (existing.count > 0) {
+                continue;
+            }
+
+            // Nothing recorded yet: classes only run on the course's teaching days, so other days need no excuse
+            if (!AcademicCalendarService.isTeachingDay(AcademicCalendarService.getDayType(calendar, currentDate))) {
+                continue;
+            }
+
+            // Otherwise excuse each scheduled slot that is not cancelled, or the whole day when the course has no schedule
+            const dayOfWeek = getZonedWeekday(currentDate, calendar.timeZone);
+            const scheduled = enrollment.course.schedules.filter((schedule) => schedule.dayOfWeek === dayOfWeek);
+            const cancelledScheduleIds = scheduled.length > 0
+                ? await AttendanceCancellationService.getCancelledScheduleIds(currentDate)
+                : new Set<string>();
+            const slots = scheduled.filter((schedule) => !cancelledScheduleIds.has(schedule.id));
+            if (scheduled.length > 0 && slots.length === 0) {
+                continue;
+            }
+
+            const periods = slots.length > 0
+                ? slots.map((schedule) => ({ classScheduleId: schedule.id }))
+                : [{}];
+
+            await prisma.attendance.createMany({
+                data: periods.map((period: IAttendancePeriod) => ({
+                    userId: leave.userId,
+                    courseId: enrollment.courseId,
+                    date: currentDate,
+                    status: 'EXCUSED' as const,
+                    notes,
+                    classScheduleId: period.classScheduleId,
+                    periodKey: getPeriodKey(period),
+                })),
+                skipDuplicates: true,
             });
         }
     }
 };
 
+/**
+ * Get what a user has left of their leave balance this academic year
+ */
+const getMyBalance = async (userId: string) => {
+    return LeaveBalanceService.getBalanceSummary(userId);
+};
+
 export const leaveServices = {
     submitLeave,
     updateLeave,
@@ -357,4 +578,7 @@ export const leaveServices = {
     deleteLeave,
     getLeaveStats,
     getLeaveDashboard,
+    getMyBalance,
+    addDocuments,
+    getDocument,
 };
\ No newline at end of file
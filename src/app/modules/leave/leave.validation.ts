@@ -9,7 +9,6 @@ const leaveTypeEnum = z.enum(['SICK', 'PERSONAL', 'VACATION', 'ACADEMIC', 'EMERG
 // Create leave validation schema
 const createLeaveSchema = z.object({
     body: z.object({
-        userId: z.string().min(1, 'User ID is required'),
         startDate: z.string().refine((val) => {
             const date = new Date(val);
             return !isNaN(date.getTime());
@@ -19,6 +18,7 @@ const createLeaveSchema = z.object({
             return !isNaN(date.getTime());
         }, 'Invalid end date format'),
         reason: z.string().min(5, 'Reason must be at least 5 characters'),
+        type: leaveTypeEnum.optional(),
     }).refine((data) => {
         const startDate = new Date(data.startDate);
         const endDate = new Date(data.endDate);
@@ -41,6 +41,7 @@ const updateLeaveSchema = z.object({
             return !isNaN(date.getTime());
         }, 'Invalid end date format').optional(),
         reason: z.string().min(5, 'Reason must be at least 5 characters').optional(),
+        type: leaveTypeEnum.optional(),
     }).refine((data) => {
         if (data.startDate && data.endDate) {
             const startDate = new Date(data.startDate);
@@ -153,6 +154,7 @@ const createLeavePolicySchema = z.object({
         maxPersonalLeave: z.number().int().min(0).default(3),
         maxVacationLeave: z.number().int().min(0).default(10),
         requireDocuments: z.boolean().default(false),
+        sickDocumentDays: z.number().int().min(0).default(2),
         minAdvanceDays: z.number().int().min(0).default(1),
         maxConsecutiveDays: z.number().int().min(1).default(7),
         isActive: z.boolean().default(true),
@@ -168,6 +170,7 @@ const updateLeavePolicySchema = z.object({
         maxPersonalLeave: z.number().int().min(0).optional(),
         maxVacationLeave: z.number().int().min(0).optional(),
         requireDocuments: z.boolean().optional(),
+        sickDocumentDays: z.number().int().min(0).optional(),
         minAdvanceDays: z.number().int().min(0).optional(),
         maxConsecutiveDays: z.number().int().min(1).optional(),
         isActive: z.boolean().optional(),
@@ -182,6 +185,14 @@ const idParamSchema = z.object({
     }),
 });
 
+// Leave document parameters validation schema
+const documentParamSchema = z.object({
+    params: z.object({
+        id: z.string().min(1, 'ID is required'),
+        documentId: z.string().min(1, 'Document ID is required'),
+    }),
+});
+
 // Leave filters validation schema
 const leaveFiltersSchema = z.object({
     query: z.object({
@@ -240,6 +251,7 @@ export const leaveValidation = {
     createLeavePolicySchema,
     updateLeavePolicySchema,
     idParamSchema,
+    documentParamSchema,
     leaveFiltersSchema,
     leaveBalanceFiltersSchema,
     leavePolicyFiltersSchema,
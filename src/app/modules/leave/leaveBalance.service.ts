@@ -0,0 +1,196 @@
+import { LeaveBalance } from '@prisma/client';
+import { ILeaveBalanceSummary, LeaveType } from './leave.interface';
+import { LeavePolicyService } from './leavePolicy.service';
+import LeavePolicyError from '../../errors/LeavePolicyError';
+import prisma from '../../config/prisma';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { ICalendarScope } from '../calendar/calendar.interface';
+import { getZonedParts, startOfZonedDay } from '../../utils/zonedTime';
+
+// Leave types drawn from a balance, with the LeaveBalance fields that track them; other types are not limited
+const BALANCE_FIELDS = {
+    SICK: { allowance: 'sickLeave', used: 'usedSick' },
+    PERSONAL: { allowance: 'personalLeave', used: 'usedPersonal' },
+    VACATION: { allowance: 'vacationLeave', used: 'usedVacation' },
+} as const;
+
+type BalancedLeaveType = keyof typeof BALANCE_FIELDS;
+
+const isBalanced = (type: LeaveType): type is BalancedLeaveType => type in BALANCE_FIELDS;
+
+const getRemaining = (balance: LeaveBalance, type: BalancedLeaveType): number =>
+    balance[BALANCE_FIELDS[type].allowance] - balance[BALANCE_FIELDS[type].used];
+
+/**
+ * The academic year a leave starting on a date is counted against: the year of the department's semester
+ * running on that day, or the calendar year of the day (in the given time zone) outside any semester
+ */
+const getAcademicYear = async (scope: ICalendarScope, date: Date, timeZone: string): Promise<string> => {
+    const semester = scope.departmentId
+        ? await prisma.semester.findFirst({
+            where: {
+                departmentId: scope.departmentId,
+                startDate: { lte: date },
+                endDate: { gte: date },
+            },
+            orderBy: { startDate: 'desc' },
+            select: { year: true },
+        })
+        : null;
+
+    return String(semester?.year ?? getZonedParts(date, timeZone).year);
+};
+
+/**
+ * A user's leave balance for an academic year. It is set up from the year's active leave policy
+ * the first time it is needed; without an active policy there is no balance and leave is not limited.
+ */
+const getBalance = async (userId: string, academicYear: string): Promise<LeaveBalance | null> => {
+    const balance = await prisma.leaveBalance.findUnique({
+        where: { userId_academicYear: { userId, academicYear } },
+    });
+    if (balance) {
+        return balance;
+    }
+
+    const policy = await LeavePolicyService.getActivePolicy(academicYear);
+    if (!policy) {
+        return null;
+    }
+
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+            studentProfile: { select: { id: true } },
+            teacherProfile: { select: { id: true } },
+        },
+    });
+
+    return prisma.leaveBalance.upsert({
+        where: { userId_academicYear: { userId, academicYear } },
+        create: {
+            userId,
+            studentId: user?.studentProfile?.id,
+            teacherId: user?.teacherProfile?.id,
+            academicYear,
+            sickLeave: policy.maxSickLeave,
+            personalLeave: policy.maxPersonalLeave,
+            vacationLeave: policy.maxVacationLeave,
+        },
+        update: {},
+    });
+};
+
+/**
+ * Refuse a leave of a type and length the user has not enough balance left for
+ */
+const assertAvailable = async (userId: string, academicYear: string, type: LeaveType, days: number): Promise<void> => {
+    if (!isBalanced(type)) {
+        return;
+    }
+
+    const balance = await getBalance(userId, academicYear);
+    if (!balance) {
+        return;
+    }
+
+    const remaining = getRemaining(balance, type);
+    if (days > remaining) {
+        throw new LeavePolicyError(
+            'LEAVE_BALANCE_EXCEEDED',
+            `Only ${remaining} ${type.toLowerCase()} leave day(s) left for ${academicYear}, the request takes ${days}`,
+            { type, academicYear, remaining, days }
+        );
+    }
+};
+
+/**
+ * Take an approved leave's days from the user's balance. Returns the days taken, 0 when the leave is not limited.
+ */
+const deduct = async (userId: string, academicYear: string, type: LeaveType, days: number): Promise<number> => {
+    if (!isBalanced(type)) {
+        return 0;
+    }
+
+    const balance = await getBalance(userId, academicYear);
+    if (!balance) {
+        return 0;
+    }
+
+    // Only take the days while the balance still covers them, so concurrent approvals cannot overdraw it
+    const { allowance, used } = BALANCE_FIELDS[type];
+    const { count } = await prisma.leaveBalance.updateMany({
+        where: { id: balance.id, [used]: { lte: balance[allowance] - days } },
+        data: { [used]: { increment: days } },
+    });
+
+    if (count === 0) {
+        throw new LeavePolicyError(
+            'LEAVE_BALANCE_EXCEEDED',
+            `Not enough ${type.toLowerCase()} leave left for ${academicYear} to approve ${days} day(s)`,
+            { type, academicYear, remaining: getRemaining(balance, type), days }
+        );
+    }
+
+    return days;
+};
+
+/**
+ * Give back the days a reverted leave took from the user's balance
+ */
+const restore = async (userId: string, academicYear: string, type: LeaveType, days: number): Promise<void> => {
+    if (!isBalanced(type) || days <= 0) {
+        return;
+    }
+
+    // Decrement in place so concurrent restores and approvals cannot overwrite each other
+    const { used } = BALANCE_FIELDS[type];
+    const { count } = await prisma.leaveBalance.updateMany({
+        where: { userId, academicYear, [used]: { gte: days } },
+        data: { [used]: { decrement: days } },
+    });
+
+    // Never take the used days below zero
+    if (count === 0) {
+        await prisma.leaveBalance.updateMany({
+            where: { userId, academicYear, [used]: { lt: days } },
+            data: { [used]: 0 },
+        });
+    }
+};
+
+/**
+ * What a user has used and has left of each limited leave type in the academic year running today
+ */
+const getBalanceSummary = async (userId: string): Promise<ILeaveBalanceSummary | null> => {
+    const scope = await AcademicCalendarService.getUserScope(userId);
+    const timeZone = await AcademicCalendarService.getTimeZone(scope.departmentId);
+    const academicYear = await getAcademicYear(scope, startOfZonedDay(new Date(), timeZone), timeZone);
+    const balance = await getBalance(userId, academicYear);
+    if (!balance) {
+        return null;
+    }
+
+    return {
+        userId,
+        academicYear,
+        availableSick: balance.sickLeave,
+        availablePersonal: balance.personalLeave,
+        availableVacation: balance.vacationLeave,
+        usedSick: balance.usedSick,
+        usedPersonal: balance.usedPersonal,
+        usedVacation: balance.usedVacation,
+        remainingSick: getRemaining(balance, 'SICK'),
+        remainingPersonal: getRemaining(balance, 'PERSONAL'),
+        remainingVacation: getRemaining(balance, 'VACATION'),
+    };
+};
+
+export const LeaveBalanceService = {
+    getAcademicYear,
+    getBalance,
+    assertAvailable,
+    deduct,
+    restore,
+    getBalanceSummary,
+};
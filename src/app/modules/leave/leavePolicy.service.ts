@@ -0,0 +1,99 @@
+import { LeavePolicy } from '@prisma/client';
+import { LeaveType } from './leave.interface';
+import LeavePolicyError from '../../errors/LeavePolicyError';
+import prisma from '../../config/prisma';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { ICalendarScope } from '../calendar/calendar.interface';
+import { zonedDaysBetween } from '../../utils/zonedTime';
+
+type LeaveRules = Pick<LeavePolicy, 'minAdvanceDays' | 'maxConsecutiveDays' | 'requireDocuments' | 'sickDocumentDays'>;
+
+// Rules for an academic year without an active policy: no notice, at most 30 consecutive days, no documents
+const DEFAULT_RULES: LeaveRules = {
+    minAdvanceDays: 0,
+    maxConsecutiveDays: 30,
+    requireDocuments: false,
+    sickDocumentDays: 30,
+};
+
+// A leave request as the policy sees it, with its days already normalized to the user's time zone
+type LeaveToCheck = {
+    type: LeaveType;
+    startDate: Date;
+    endDate: Date;
+    hasDocuments: boolean;
+    academicYear: string;
+};
+
+/**
+ * The leave policy in force for an academic year, the most recently updated active one
+ */
+const getActivePolicy = async (academicYear: string): Promise<LeavePolicy | null> => {
+    return prisma.leavePolicy.findFirst({
+        where: { academicYear, isActive: true },
+        orderBy: { updatedAt: 'desc' },
+    });
+};
+
+/**
+ * Check a leave request against the active policy of its academic year and return the working days it takes.
+ * Emergency leave skips the advance notice, and sick leave longer than the policy's sickDocumentDays needs a document.
+ * Pass checkNotice false when the dates are not being changed.
+ */
+const assertLeaveAllowed = async (
+    leave: LeaveToCheck,
+    scope: ICalendarScope,
+    timeZone: string,
+    { checkNotice = true }: { checkNotice?: boolean } = {}
+): Promise<number> => {
+    const rules: LeaveRules = await getActivePolicy(leave.academicYear) ?? DEFAULT_RULES;
+
+    if (checkNotice) {
+        const noticeDays = zonedDaysBetween(new Date(), leave.startDate, timeZone);
+        if (noticeDays < 0) {
+            throw new LeavePolicyError('LEAVE_START_IN_PAST', 'Start date cannot be in the past');
+        }
+
+        if (leave.type !== 'EMERGENCY' && noticeDays < rules.minAdvanceDays) {
+            throw new LeavePolicyError(
+                'LEAVE_ADVANCE_NOTICE',
+                `Leave must be requested at least ${rules.minAdvanceDays} day(s) in advance`,
+                { minAdvanceDays: rules.minAdvanceDays, noticeDays }
+            );
+        }
+    }
+
+    // Non-working days, holidays and breaks inside the period are not counted
+    const days = await AcademicCalendarService.countWorkingDays(scope, leave.startDate, leave.endDate);
+    if (days === 0) {
+        throw new LeavePolicyError('LEAVE_NO_WORKING_DAYS', 'The leave period has no working days');
+    }
+
+    // The length limit counts every day of the period, weekends and holidays included
+    const calendarDays = zonedDaysBetween(leave.startDate, leave.endDate, timeZone) + 1;
+    if (calendarDays > rules.maxConsecutiveDays) {
+        throw new LeavePolicyError(
+            'LEAVE_TOO_LONG',
+            `Leave cannot exceed ${rules.maxConsecutiveDays} consecutive days`,
+            { maxConsecutiveDays: rules.maxConsecutiveDays, days: calendarDays }
+        );
+    }
+
+    const needsDocument = rules.requireDocuments || (leave.type === 'SICK' && days > rules.sickDocumentDays);
+    if (needsDocument && !leave.hasDocuments) {
+        throw new LeavePolicyError(
+            'LEAVE_DOCUMENT_REQUIRED',
+            leave.type === 'SICK' && !rules.requireDocuments
+                ? `Sick leave of more than ${rules.sickDocumentDays} working day(s) needs a supporting document`
+                : 'A supporting document is required for leave requests',
+            { type: leave.type, days }
+        );
+    }
+
+    return days;
+};
+
+export const LeavePolicyService = {
+    getActivePolicy,
+    assertLeaveAllowed,
+};
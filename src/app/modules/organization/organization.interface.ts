@@ -70,6 +70,11 @@ export interface Department {
     description?: string;
     headId?: string;
     isActive: boolean;
+    lateWeight?: number | null;
+    partialWeight?: number | null;
+    excludeExcused?: boolean | null;
+    workingDays: number[];
+    timezone?: string | null;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -94,6 +99,7 @@ export interface Batch {
     startDate: Date;
     endDate: Date;
     isActive: boolean;
+    workingDays: number[];
     createdAt: Date;
     updatedAt: Date;
 }
@@ -165,10 +171,16 @@ export interface IDepartmentCreate {
     code: string;
     description?: string;
     headId?: string;
+    lateWeight?: number;
+    partialWeight?: number;
+    excludeExcused?: boolean;
+    workingDays?: number[];
+    timezone?: string;
 }
 
 // For updating a department
-export interface IDepartmentUpdate extends Partial<IDepartmentCreate> {
+export interface IDepartmentUpdate extends Partial<Omit<IDepartmentCreate, 'timezone'>> {
+    timezone?: string | null;
     isActive?: boolean;
 }
 
@@ -193,6 +205,7 @@ export interface IBatchCreate {
     description?: string;
     startDate: Date;
     endDate: Date;
+    workingDays?: number[];
 }
 
 // For updating a batch
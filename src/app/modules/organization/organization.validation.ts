@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isValidTimeZone } from '../../utils/zonedTime';
 
 // Department validation schemas
 export const createDepartmentValidationSchema = z.object({
@@ -6,6 +7,11 @@ export const createDepartmentValidationSchema = z.object({
     code: z.string().min(1, 'Department code is required').max(10, 'Department code must be less than 10 characters'),
     description: z.string().max(500, 'Description must be less than 500 characters').optional(),
     headId: z.string().cuid('Invalid department head ID').optional(),
+    lateWeight: z.number().min(0, 'Late weight must be at least 0').max(1, 'Late weight must be at most 1').optional(),
+    partialWeight: z.number().min(0, 'Partial weight must be at least 0').max(1, 'Partial weight must be at most 1').optional(),
+    excludeExcused: z.boolean().optional(),
+    workingDays: z.array(z.number().int().min(1, 'Working days run from 1 (Monday) to 7 (Sunday)').max(7, 'Working days run from 1 (Monday) to 7 (Sunday)')).optional(),
+    timezone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional(),
 });
 
 export const updateDepartmentValidationSchema = z.object({
@@ -13,6 +19,11 @@ export const updateDepartmentValidationSchema = z.object({
     code: z.string().min(1, 'Department code is required').max(10, 'Department code must be less than 10 characters').optional(),
     description: z.string().max(500, 'Description must be less than 500 characters').optional(),
     headId: z.string().cuid('Invalid department head ID').optional(),
+    lateWeight: z.number().min(0, 'Late weight must be at least 0').max(1, 'Late weight must be at most 1').optional(),
+    partialWeight: z.number().min(0, 'Partial weight must be at least 0').max(1, 'Partial weight must be at most 1').optional(),
+    excludeExcused: z.boolean().optional(),
+    workingDays: z.array(z.number().int().min(1, 'Working days run from 1 (Monday) to 7 (Sunday)').max(7, 'Working days run from 1 (Monday) to 7 (Sunday)')).optional(),
+    timezone: z.string().refine(isValidTimeZone, 'Invalid time zone').nullable().optional(),
     isActive: z.boolean().optional(),
 });
 
@@ -68,6 +79,7 @@ export const createBatchValidationSchema = z.object({
     description: z.string().max(500, 'Description must be less than 500 characters').optional(),
     startDate: z.string().datetime('Invalid start date format'),
     endDate: z.string().datetime('Invalid end date format'),
+    workingDays: z.array(z.number().int().min(1, 'Working days run from 1 (Monday) to 7 (Sunday)').max(7, 'Working days run from 1 (Monday) to 7 (Sunday)')).optional(),
 }).refine((data) => new Date(data.startDate) < new Date(data.endDate), {
     message: 'End date must be after start date',
     path: ['endDate'],
@@ -79,6 +91,7 @@ export const updateBatchValidationSchema = z.object({
     description: z.string().max(500, 'Description must be less than 500 characters').optional(),
     startDate: z.string().datetime('Invalid start date format').optional(),
     endDate: z.string().datetime('Invalid end date format').optional(),
+    workingDays: z.array(z.number().int().min(1, 'Working days run from 1 (Monday) to 7 (Sunday)').max(7, 'Working days run from 1 (Monday) to 7 (Sunday)')).optional(),
     isActive: z.boolean().optional(),
 }).refine((data) => {
     if (data.startDate && data.endDate) {
@@ -1,3 +1,5 @@
+import { isValidTimeZone, serverTimeZone } from '../../utils/zonedTime';
+
 export interface ISetting {
     id: string;
     key: string;
@@ -31,19 +33,39 @@ export const DEFAULT_SETTINGS = {
     'institution.email': 'admin@attendflow.edu',
     'institution.phone': '',
     'institution.address': '',
+    'institution.timezone': serverTimeZone(), // IANA zone attendance days and class times are kept in; departments may override it
 
     // Attendance Settings
     'attendance.lateThreshold': '10', // minutes
     'attendance.requireLocation': 'false',
     'attendance.autoMarkAbsent': 'true',
     'attendance.allowRetroactive': 'true',
+    'attendance.retroactiveDays': '7', // days after the class that non-admins may still edit
     'attendance.minRequiredPercent': '75',
+    'attendance.checkInCodeTtl': '30', // seconds
+    'attendance.geofenceRadius': '100', // meters, used when a session has no radius of its own
+    'attendance.outOfRangeAction': 'REJECT', // REJECT | FLAG
+    'attendance.autoCreateSessions': 'true', // open and close sessions from the class schedule
+    'attendance.minPresencePercent': '75', // percent of a session a student must stay, unless the course sets its own
+    'attendance.earlyLeaveStatus': 'PARTIAL', // PARTIAL | LATE | ABSENT for students who check out earlier
+    'attendance.maxStudentsPerDevice': '1', // students one device may check in to a session before they are flagged
+    'attendance.maxDevicesPerStudent': '2', // devices a student may check in from within 14 days before being flagged
+    'attendance.deviceBinding': 'false', // only registered devices may be used for check-in
+    'attendance.maxTrustedDevices': '2', // devices each student may register
+    'attendance.lateWeight': '0.5', // share of a class a LATE mark counts as in attendance percentages
+    'attendance.partialWeight': '0.5', // share of a class a PARTIAL mark counts as in attendance percentages
+    'attendance.excludeExcused': 'true', // leave EXCUSED marks out of the percentage denominator
+    'attendance.courseStreakThreshold': '3', // consecutive absences in one course before the student is alerted; 0 turns it off
+    'attendance.overallStreakThreshold': '5', // consecutive school days absent from every class before the student is alerted; 0 turns it off
+    'attendance.streakEscalationStep': '2', // further absences before a streak escalates to the teacher, then the department head
 
     // Academic Settings
     'academic.currentYear': new Date().getFullYear().toString(),
     'academic.currentSemester': '1',
     'academic.semesterStart': '',
     'academic.semesterEnd': '',
+    'academic.holidays': '', // comma separated YYYY-MM-DD dates, closed for everyone on top of the academic calendar
+    'academic.workingDays': '1,2,3,4,5', // comma separated days of the week taught, Monday 1 to Sunday 7
 
     // Notification Settings
     'notification.emailEnabled': 'true',
@@ -66,6 +88,7 @@ export const DEFAULT_SETTINGS = {
 
 // Settings validation schemas
 export const SETTINGS_VALIDATION = {
+    'institution.timezone': (val: string) => isValidTimeZone(val),
     'attendance.lateThreshold': (val: string) => {
         const num = parseInt(val);
         return num >= 0 && num <= 60;
@@ -74,6 +97,64 @@ export const SETTINGS_VALIDATION = {
         const num = parseInt(val);
         return num >= 0 && num <= 100;
     },
+    'attendance.checkInCodeTtl': (val: string) => {
+        const num = parseInt(val);
+        return num >= 10 && num <= 300; // 10 sec to 5 min
+    },
+    'attendance.retroactiveDays': (val: string) => {
+        const num = parseInt(val);
+        return num >= 0 && num <= 365;
+    },
+    'attendance.geofenceRadius': (val: string) => {
+        const num = parseInt(val);
+        return num >= 10 && num <= 5000; // 10 m to 5 km
+    },
+    'attendance.outOfRangeAction': (val: string) => ['REJECT', 'FLAG'].includes(val),
+    'attendance.minPresencePercent': (val: string) => {
+        const num = parseInt(val);
+        return num >= 0 && num <= 100;
+    },
+    'attendance.maxStudentsPerDevice': (val: string) => {
+        const num = parseInt(val);
+        return num >= 1 && num <= 50;
+    },
+    'attendance.maxDevicesPerStudent': (val: string) => {
+        const num = parseInt(val);
+        return num >= 1 && num <= 20;
+    },
+    'attendance.maxTrustedDevices': (val: string) => {
+        const num = parseInt(val);
+        return num >= 1 && num <= 10;
+    },
+    'attendance.lateWeight': (val: string) => {
+        const num = parseFloat(val);
+        return num >= 0 && num <= 1;
+    },
+    'attendance.partialWeight': (val: string) => {
+        const num = parseFloat(val);
+        return num >= 0 && num <= 1;
+    },
+    'attendance.earlyLeaveStatus': (val: string) => ['PARTIAL', 'LATE', 'ABSENT'].includes(val),
+    'attendance.courseStreakThreshold': (val: string) => {
+        const num = parseInt(val);
+        return num >= 0 && num <= 50;
+    },
+    'attendance.overallStreakThreshold': (val: string) => {
+        const num = parseInt(val);
+        return num >= 0 && num <= 50;
+    },
+    'attendance.streakEscalationStep': (val: string) => {
+        const num = parseInt(val);
+        return num >= 1 && num <= 20;
+    },
+    'academic.holidays': (val: string) => val.split(',')
+        .map((date) => date.trim())
+        .filter(Boolean)
+        .every((date) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(new Date(date).getTime())),
+    'academic.workingDays': (val: string) => {
+        const days = val.split(',').map((day) => day.trim());
+        return days.length > 0 && days.every((day) => /^[1-7]$/.test(day));
+    },
     'grading.passingPercent': (val: string) => {
         const num = parseInt(val);
         return num >= 0 && num <= 100;
@@ -96,19 +177,39 @@ export interface ISystemSettings {
         email?: string;
         phone?: string;
         address?: string;
+        timezone?: string;
     };
     attendance?: {
         lateThreshold?: number;
         requireLocation?: boolean;
         autoMarkAbsent?: boolean;
         allowRetroactive?: boolean;
+        retroactiveDays?: number;
         minRequiredPercent?: number;
+        checkInCodeTtl?: number;
+        geofenceRadius?: number;
+        outOfRangeAction?: 'REJECT' | 'FLAG';
+        autoCreateSessions?: boolean;
+        minPresencePercent?: number;
+        earlyLeaveStatus?: 'PARTIAL' | 'LATE' | 'ABSENT';
+        maxStudentsPerDevice?: number;
+        maxDevicesPerStudent?: number;
+        deviceBinding?: boolean;
+        maxTrustedDevices?: number;
+        lateWeight?: number;
+        partialWeight?: number;
+        excludeExcused?: boolean;
+        courseStreakThreshold?: number;
+        overallStreakThreshold?: number;
+        streakEscalationStep?: number;
     };
     academic?: {
         currentYear?: number;
         currentSemester?: number;
         semesterStart?: string;
         semesterEnd?: string;
+        holidays?: string;
+        workingDays?: string;
     };
     notification?: {
         emailEnabled?: boolean;
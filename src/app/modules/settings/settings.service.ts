@@ -86,6 +86,22 @@ const getSetting = async (key: string) => {
     return setting.value;
 };
 
+/**
+ * Get a numeric setting, falling back to its default when unset or invalid
+ */
+const getNumberSetting = async (key: keyof typeof DEFAULT_SETTINGS): Promise<number> => {
+    const value = parseInt(String(await getSetting(key)));
+    return isNaN(value) ? parseInt(DEFAULT_SETTINGS[key]) : value;
+};
+
+/**
+ * Get a boolean setting stored as 'true' / 'false'
+ */
+const getBooleanSetting = async (key: keyof typeof DEFAULT_SETTINGS): Promise<boolean> => {
+    const value = await getSetting(key);
+    return String(value ?? DEFAULT_SETTINGS[key]) === 'true';
+};
+
 /**
  * Update or create a setting with validation
  */
@@ -188,6 +204,8 @@ export const SettingsService = {
     getSettings,
     getSettingsByCategory,
     getSetting,
+    getNumberSetting,
+    getBooleanSetting,
     updateSetting,
     updateSettingsBulk,
     resetSetting,
@@ -1,4 +1,5 @@
 import { User, Student, Batch, Department, Course, Attendance, LeaveRequest } from '@prisma/client';
+import { IStudentCourseEligibility } from '../attendance/attendance.interface';
 
 // Export the Prisma-generated types
 export type IStudent = Student;
@@ -161,4 +162,6 @@ export interface IStudentDashboard {
         createdAt: Date;
         isRead: boolean;
     }[];
+    // Exam eligibility against attendance.minRequiredPercent, per enrolled course
+    eligibility: IStudentCourseEligibility[];
 }
@@ -17,6 +17,8 @@ import { StatusCodes } from 'http-status-codes';
 import prisma from '../../config/prisma';
 import { generateStudentId, generateStudentUserId } from '../../utils/idGenerator';
 import { hashInfo } from '../../utils/hashInfo';
+import { AttendancePolicyService } from '../attendance/attendancePolicy.service';
+import { AttendanceEligibilityService } from '../attendance/attendanceEligibility.service';
 
 /** Create a new Student profile */
 const createStudent = async (data: IStudentCreate): Promise<IStudentWithUser> => {
@@ -351,17 +353,10 @@ const getStudentProfile = async (id: string): Promise<IStudentProfile | null> =>
     const approvedLeaves = leaves.filter((leave: any) => leave.status === 'APPROVED').length;
     const pendingLeaves = leaves.filter((leave: any) => leave.status === 'PENDING').length;
 
-    // Calculate attendance percentage
-    let attendancePercentage = 0;
-    if (totalAttendances > 0) {
-        const presentAttendances = await prisma.attendance.count({
-            where: {
-                userId: student.userId,
-                status: 'PRESENT',
-            },
-        });
-        attendancePercentage = Math.round((presentAttendances / totalAttendances) * 100);
-    }
+    // Calculate attendance percentage under each course's attendance policy
+    const attendancePercentage = Math.round(
+        await AttendancePolicyService.getAttendancePercentage({ userId: student.userId })
+    );
 
     const studentProfile = student;
 
@@ -489,9 +484,9 @@ const getStudentAttendanceSummary = async (studentId: string): Promise<IStudentA
         }),
     ]);
 
-    const attendancePercentage = totalClasses > 0
-        ? Math.round((presentCount / totalClasses) * 100)
-        : 0;
+    const attendancePercentage = Math.round(
+        await AttendancePolicyService.getAttendancePercentage({ userId: student.userId })
+    );
 
     // Get monthly breakdown (last 6 months)
     const sixMonthsAgo = new Date();
@@ -707,6 +702,8 @@ const getStudentDashboard = async (studentId: string): Promise<IStudentDashboard
         take: 5,
     });
 
+    const eligibility = await AttendanceEligibilityService.getStudentEligibility(profile.user.id);
+
     return {
         profile,
         recentAttendance: recentAttendance as IStudentAttendanceView[],
@@ -730,6 +727,7 @@ const getStudentDashboard = async (studentId: string): Promise<IStudentDashboard
             createdAt: notification.createdAt,
             isRead: notification.readStatus,
         })),
+        eligibility,
     };
 };
 
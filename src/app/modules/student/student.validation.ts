@@ -154,7 +154,7 @@ const attendanceViewSchema = z.object({
             const date = new Date(val);
             return !isNaN(date.getTime());
         }, 'Invalid end date format').optional(),
-        status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED']).optional(),
+        status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED', 'PARTIAL']).optional(),
         page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
         limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
     }),
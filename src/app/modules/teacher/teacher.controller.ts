@@ -94,13 +94,13 @@ export const getTeacherStatistics = catchAsync(async (req: Request, res: Respons
 // Attendance controllers
 export const markAttendance = catchAsync(async (req: Request, res: Response) => {
     const { teacherId } = req.params;
-    const validatedData = TeacherValidation.markAttendance.parse(req.body);
+    const { reason, ...validatedData } = TeacherValidation.markAttendance.parse(req.body);
     validatedData.date = validatedData.date;
     const result = await TeacherService.markAttendance(teacherId, {
         ...validatedData,
         checkIn: validatedData.checkIn ? new Date(validatedData.checkIn) : undefined,
         checkOut: validatedData.checkOut ? new Date(validatedData.checkOut) : undefined,
-    });
+    }, { userId: req.user.id, role: req.user.role, reason });
 
     sendResponse(res, {
         statusCode: StatusCodes.CREATED,
@@ -111,7 +111,7 @@ export const markAttendance = catchAsync(async (req: Request, res: Response) =>
 
 export const bulkMarkAttendance = catchAsync(async (req: Request, res: Response) => {
     const { teacherId } = req.params;
-    const validatedData = TeacherValidation.bulkMarkAttendance.parse(req.body);
+    const { reason, ...validatedData } = TeacherValidation.bulkMarkAttendance.parse(req.body);
     validatedData.date = validatedData.date;
     const result = await TeacherService.bulkMarkAttendance(teacherId, {
         ...validatedData,
@@ -120,7 +120,7 @@ export const bulkMarkAttendance = catchAsync(async (req: Request, res: Response)
             checkIn: attendance.checkIn ? new Date(attendance.checkIn) : undefined,
             checkOut: attendance.checkOut ? new Date(attendance.checkOut) : undefined,
         })),
-    });
+    }, { userId: req.user.id, role: req.user.role, reason });
 
     sendResponse(res, {
         statusCode: StatusCodes.CREATED,
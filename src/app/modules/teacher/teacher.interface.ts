@@ -140,22 +140,28 @@ export interface IMarkAttendance {
     studentId: string;
     courseId: string;
     date: string;
-    status: 'PRESENT' | 'ABSENT' | 'LATE' | 'EXCUSED';
+    status: 'PRESENT' | 'ABSENT' | 'LATE' | 'EXCUSED' | 'PARTIAL';
     checkIn?: Date;
     checkOut?: Date;
     notes?: string;
+    attendanceSessionId?: string;
+    classScheduleId?: string;
+    overrideStatus?: boolean;
 }
 
 // Bulk attendance marking
 export interface IBulkMarkAttendance {
     courseId: string;
     date: string;
+    attendanceSessionId?: string;
+    classScheduleId?: string;
     attendances: {
         studentId: string;
-        status: 'PRESENT' | 'ABSENT' | 'LATE' | 'EXCUSED';
+        status: 'PRESENT' | 'ABSENT' | 'LATE' | 'EXCUSED' | 'PARTIAL';
         checkIn?: Date;
         checkOut?: Date;
         notes?: string;
+        overrideStatus?: boolean;
     }[];
 }
 
@@ -201,6 +207,9 @@ export interface ICreateClassSchedule {
     startTime: string; // e.g., "09:00"
     endTime: string; // e.g., "10:30"
     room?: string;
+    roomLatitude?: number;
+    roomLongitude?: number;
+    roomGeofenceRadius?: number; // meters
     semester?: number;
 }
 
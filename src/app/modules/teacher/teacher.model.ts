@@ -1,4 +1,5 @@
 import prisma from '../../config/prisma';
+import { AttendancePolicyService } from '../attendance/attendancePolicy.service';
 
 // Teacher model operations
 export const TeacherModel = {
@@ -213,11 +214,8 @@ export const ClassScheduleModel = {
         });
     },
 
-    // Get today's schedule for a teacher
-    getTodaySchedule: async (teacherId: string) => {
-        const today = new Date().getDay(); // 0 = Sunday, 1 = Monday, etc.
-        const dayOfWeek = today === 0 ? 7 : today; // Convert Sunday to 7
-
+    // Get a teacher's schedule for a day of the week (1 = Monday, 7 = Sunday)
+    getTodaySchedule: async (teacherId: string, dayOfWeek: number) => {
         return await prisma.classSchedule.findMany({
             where: {
                 teacherId,
@@ -320,86 +318,6 @@ export const SubjectModel = {
 
 // Attendance model operations for teachers
 export const TeacherAttendanceModel = {
-    // Mark attendance for a student
-    markAttendance: async (data: any) => {
-        const { studentId, courseId, date, status, checkIn, checkOut, notes, markedBy } = data;
-
-        return await prisma.attendance.upsert({
-            where: {
-                userId_courseId_date: {
-                    userId: studentId,
-                    courseId,
-                    date: new Date(date),
-                },
-            },
-            update: {
-                status,
-                checkIn: checkIn ? new Date(checkIn) : null,
-                checkOut: checkOut ? new Date(checkOut) : null,
-                notes,
-                markedBy,
-            },
-            create: {
-                userId: studentId,
-                courseId,
-                date: new Date(date),
-                status,
-                checkIn: checkIn ? new Date(checkIn) : null,
-                checkOut: checkOut ? new Date(checkOut) : null,
-                notes,
-                markedBy,
-            },
-            include: {
-                course: true,
-                marker: {
-                    select: { id: true, name: true, email: true },
-                },
-            },
-        });
-    },
-
-    // Bulk mark attendance
-    bulkMarkAttendance: async (courseId: string, date: Date, attendances: any[], markedBy: string) => {
-        const results = [];
-
-        for (const attendance of attendances) {
-            const result = await prisma.attendance.upsert({
-                where: {
-                    userId_courseId_date: {
-                        userId: attendance.studentId,
-                        courseId,
-                        date: new Date(date),
-                    },
-                },
-                update: {
-                    status: attendance.status,
-                    checkIn: attendance.checkIn ? new Date(attendance.checkIn) : null,
-                    checkOut: attendance.checkOut ? new Date(attendance.checkOut) : null,
-                    notes: attendance.notes,
-                    markedBy,
-                },
-                create: {
-                    userId: attendance.studentId,
-                    courseId,
-                    date: new Date(date),
-                    status: attendance.status,
-                    checkIn: attendance.checkIn ? new Date(attendance.checkIn) : null,
-                    checkOut: attendance.checkOut ? new Date(attendance.checkOut) : null,
-                    notes: attendance.notes,
-                    markedBy,
-                },
-                include: {
-                    user: true,
-                    course: true,
-                },
-            });
-
-            results.push(result);
-        }
-
-        return results;
-    },
-
     // Get attendance records for a course
     getCourseAttendance: async (courseId: string, filters: any = {}) => {
         const { startDate, endDate, status } = filters;
@@ -470,20 +388,25 @@ export const TeacherAttendanceModel = {
                     absent: 0,
                     late: 0,
                     excused: 0,
+                    partial: 0,
                 };
             }
 
             acc[studentId].total++;
-            acc[studentId][attendance.status.toLowerCase()]++;
+            // Suspected proxy check-ins count as classes held but not as attended until approved
+            if (!attendance.proxyFlagged || ['ABSENT', 'EXCUSED'].includes(attendance.status)) {
+                acc[studentId][attendance.status.toLowerCase()]++;
+            }
 
             return acc;
         }, {});
 
-        // Calculate attendance percentage for each student
+        // Calculate attendance percentage for each student under the course's attendance policy
+        const policy = await AttendancePolicyService.resolvePolicy(courseId);
         const studentStats = Object.values(studentBreakdown).map((student: any) => ({
             studentId: student.studentId,
             name: student.name,
-            attendancePercentage: totalClasses > 0 ? (student.present / totalClasses) * 100 : 0,
+            attendancePercentage: AttendancePolicyService.calculatePercentage(student, policy),
         }));
 
         return {
@@ -493,7 +416,7 @@ export const TeacherAttendanceModel = {
             absentCount: statusCounts.ABSENT || 0,
             lateCount: statusCounts.LATE || 0,
             excusedCount: statusCounts.EXCUSED || 0,
-            attendancePercentage: totalClasses > 0 ? ((statusCounts.PRESENT || 0) / (totalClasses * Object.keys(studentBreakdown).length)) * 100 : 0,
+            attendancePercentage: await AttendancePolicyService.getAttendancePercentage(where),
             studentBreakdown: studentStats,
         };
     },
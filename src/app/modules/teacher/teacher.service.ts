@@ -27,6 +27,14 @@ import { generateTeacherId, generateTeacherUserId } from '../../utils/idGenerato
 import { hashInfo } from '../../utils/hashInfo';
 import prisma from '../../config/prisma';
 import QueryBuilder from '../../builder/QueryBuilder';
+import { attendanceServices } from '../attendance/attendance.service';
+import { IAttendanceEditor } from '../attendance/attendance.interface';
+import { AttendanceLockService } from '../attendance/attendanceLock.service';
+import { AttendanceStreakService } from '../attendance/attendanceStreak.service';
+import { AttendanceCancellationService } from '../attendance/attendanceCancellation.service';
+import { AcademicCalendarService } from '../calendar/calendar.service';
+import { leaveServices } from '../leave/leave.service';
+import { addZonedDays, getZonedWeekday, startOfZonedDay } from '../../utils/zonedTime';
 
 // Teacher profile services
 export const createTeacherProfile = async (data: ITeacherCreate): Promise<ITeacherWithUser> => {
@@ -270,9 +278,9 @@ export const getTeacherStatistics = async (teacherId: string): Promise<{
 
         // Get this week's classes (classes scheduled from start of week to today)
         const today = new Date();
-        const startOfWeek = new Date(today);
-        startOfWeek.setDate(today.getDate() - today.getDay()); // Start from Sunday
-        startOfWeek.setHours(0, 0, 0, 0);
+        const timeZone = await AcademicCalendarService.getTimeZone(teacher.departmentId);
+        // Start from Sunday
+        const startOfWeek = addZonedDays(today, -(getZonedWeekday(today, timeZone) % 7), timeZone);
 
         const thisWeekClasses = classSchedules.filter((schedule: any) => {
             const scheduleDate = new Date(schedule.date);
@@ -291,7 +299,7 @@ export const getTeacherStatistics = async (teacherId: string): Promise<{
 };
 
 // Attendance services
-export const markAttendance = async (teacherId: string, data: IMarkAttendance): Promise<IAttendanceRecord> => {
+export const markAttendance = async (teacherId: string, data: IMarkAttendance, editor: IAttendanceEditor): Promise<IAttendanceRecord> => {
     try {
         // Verify teacher exists
         const teacher = await TeacherModel.findById(teacherId);
@@ -299,11 +307,29 @@ export const markAttendance = async (teacherId: string, data: IMarkAttendance):
             throw new AppError(StatusCodes.UNAUTHORIZED, 'Unauthorized to mark attendance');
         }
 
-        // Mark attendance
-        const attendance = await TeacherAttendanceModel.markAttendance({
-            ...data,
-            markedBy: teacherId,
-        });
+        // Attendance is kept against midnight of the day in the course's time zone
+        const timeZone = await AcademicCalendarService.getCourseTimeZone(data.courseId);
+        const date = startOfZonedDay(data.date, timeZone);
+
+        await AttendanceLockService.assertNotLocked(data.courseId, date);
+        await AttendanceCancellationService.assertNotCancelled(data.classScheduleId, date);
+
+        // Derive LATE from the check-in time unless the teacher overrides it
+        const status = await attendanceServices.resolveAttendanceStatus(data);
+
+        // Mark attendance; re-marking a recorded student goes through the edit window
+        const [attendance] = await attendanceServices.markAttendances({
+            courseId: data.courseId,
+            date,
+            attendanceSessionId: data.attendanceSessionId,
+            classScheduleId: data.classScheduleId,
+            attendances: [{ userId: data.studentId, status, checkIn: data.checkIn, checkOut: data.checkOut, notes: data.notes }],
+            markedBy: teacher.userId,
+        }, editor, timeZone);
+
+        if (status === 'ABSENT') {
+            AttendanceStreakService.checkStreaks(data.courseId, [attendance.userId]);
+        }
 
         // Transform to match IAttendanceRecord interface
         return {
@@ -325,7 +351,7 @@ export const markAttendance = async (teacherId: string, data: IMarkAttendance):
     }
 };
 
-export const bulkMarkAttendance = async (teacherId: string, data: IBulkMarkAttendance): Promise<IAttendanceRecord[]> => {
+export const bulkMarkAttendance = async (teacherId: string, data: IBulkMarkAttendance, editor: IAttendanceEditor): Promise<IAttendanceRecord[]> => {
     try {
         // Verify teacher exists
         const teacher = await TeacherModel.findById(teacherId);
@@ -333,12 +359,42 @@ export const bulkMarkAttendance = async (teacherId: string, data: IBulkMarkAtten
             throw new AppError(StatusCodes.UNAUTHORIZED, 'Unauthorized to mark attendance');
         }
 
-        // Bulk mark attendance
-        const attendances = await TeacherAttendanceModel.bulkMarkAttendance(
+        const timeZone = await AcademicCalendarService.getCourseTimeZone(data.courseId);
+        const date = startOfZonedDay(data.date, timeZone);
+
+        await AttendanceLockService.assertNotLocked(data.courseId, date);
+        await AttendanceCancellationService.assertNotCancelled(data.classScheduleId, date);
+
+        // Derive LATE from each check-in time unless the teacher overrides it
+        const resolvedAttendances = [];
+        for (const attendance of data.attendances) {
+            const status = await attendanceServices.resolveAttendanceStatus({
+                ...attendance,
+                courseId: data.courseId,
+                classScheduleId: data.classScheduleId,
+            });
+            resolvedAttendances.push({
+                userId: attendance.studentId,
+                status,
+                checkIn: attendance.checkIn,
+                checkOut: attendance.checkOut,
+                notes: attendance.notes,
+            });
+        }
+
+        // Bulk mark attendance; re-marking recorded students goes through the edit window
+        const attendances = await attendanceServices.markAttendances({
+            courseId: data.courseId,
+            date,
+            attendanceSessionId: data.attendanceSessionId,
+            classScheduleId: data.classScheduleId,
+            attendances: resolvedAttendances,
+            markedBy: teacher.userId,
+        }, editor, timeZone);
+
+        AttendanceStreakService.checkStreaks(
             data.courseId,
-            new Date(data.date),
-            data.attendances,
-            teacherId
+            attendances.filter((attendance) => attendance.status === 'ABSENT').map((attendance) => attendance.userId)
         );
 
         // Transform to match IAttendanceRecord interface
@@ -425,11 +481,11 @@ export const processLeaveRequest = async (teacherId: string, data: ILeaveApprova
             throw new AppError(StatusCodes.UNAUTHORIZED, 'Unauthorized to process leave requests');
         }
 
-        // Process leave request
-        const processedLeave = await TeacherLeaveModel.processLeaveRequest(
+        // Process leave request, keeping the leave balance and attendance in step
+        const processedLeave = await leaveServices.processLeaveRequest(
             data.leaveId,
             data.status,
-            teacherId,
+            teacher.userId,
             data.rejectionReason
         );
 
@@ -456,8 +512,8 @@ export const getProcessedLeaves = async (teacherId: string): Promise<ILeaveReque
             throw new AppError(StatusCodes.UNAUTHORIZED, 'Unauthorized to view processed leaves');
         }
 
-        // Get processed leave requests
-        const processedLeaves = await TeacherLeaveModel.getProcessedLeaves(teacherId);
+        // Get processed leave requests; approvers are recorded by their user ID
+        const processedLeaves = await TeacherLeaveModel.getProcessedLeaves(teacher.userId);
 
         return processedLeaves;
     } catch (error) {
@@ -512,7 +568,8 @@ export const getTodaySchedule = async (teacherId: string): Promise<IClassSchedul
         }
 
         // Get today's schedule
-        const todaySchedule = await ClassScheduleModel.getTodaySchedule(teacherId);
+        const timeZone = await AcademicCalendarService.getTimeZone(teacher.departmentId);
+        const todaySchedule = await ClassScheduleModel.getTodaySchedule(teacherId, getZonedWeekday(new Date(), timeZone));
 
         return todaySchedule as unknown as IClassScheduleView[];
     } catch (error) {
@@ -643,7 +700,8 @@ export const getTeacherDashboard = async (teacherId: string): Promise<ITeacherDa
         }
 
         // Get today's schedule
-        const todaySchedule = await ClassScheduleModel.getTodaySchedule(teacherId);
+        const timeZone = await AcademicCalendarService.getTimeZone(teacher.departmentId);
+        const todaySchedule = await ClassScheduleModel.getTodaySchedule(teacherId, getZonedWeekday(new Date(), timeZone));
 
         // Get upcoming classes (next 7 days)
         const upcomingClasses = await ClassScheduleModel.findByTeacherId(teacherId); // Filter in service
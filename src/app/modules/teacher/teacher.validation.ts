@@ -41,23 +41,31 @@ export const markAttendanceValidationSchema = z.object({
     studentId: z.string().cuid('Invalid student ID'),
     courseId: z.string().cuid('Invalid course ID'),
     date: z.string().datetime('Invalid date format'),
-    status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED']),
+    status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED', 'PARTIAL']),
     checkIn: z.string().datetime('Invalid check-in time').optional(),
     checkOut: z.string().datetime('Invalid check-out time').optional(),
     notes: z.string().max(500, 'Notes must be less than 500 characters').optional(),
+    attendanceSessionId: z.string().cuid('Invalid attendance session ID').optional(),
+    classScheduleId: z.string().cuid('Invalid class schedule ID').optional(),
+    overrideStatus: z.boolean().optional(),
+    reason: z.string().min(5, 'Reason must be at least 5 characters').max(500, 'Reason must be less than 500 characters').optional(),
 });
 
 // Bulk attendance marking validation
 export const bulkMarkAttendanceValidationSchema = z.object({
     courseId: z.string().cuid('Invalid course ID'),
     date: z.string().datetime('Invalid date format'),
+    attendanceSessionId: z.string().cuid('Invalid attendance session ID').optional(),
+    classScheduleId: z.string().cuid('Invalid class schedule ID').optional(),
     attendances: z.array(z.object({
         studentId: z.string().cuid('Invalid student ID'),
-        status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED']),
+        status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED', 'PARTIAL']),
         checkIn: z.string().datetime('Invalid check-in time').optional(),
         checkOut: z.string().datetime('Invalid check-out time').optional(),
         notes: z.string().max(500, 'Notes must be less than 500 characters').optional(),
+        overrideStatus: z.boolean().optional(),
     })).min(1, 'At least one attendance record is required'),
+    reason: z.string().min(5, 'Reason must be at least 5 characters').max(500, 'Reason must be less than 500 characters').optional(),
 });
 
 // Leave approval validation
@@ -75,6 +83,9 @@ export const createClassScheduleValidationSchema = z.object({
     startTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format. Use HH:MM format'),
     endTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format. Use HH:MM format'),
     room: z.string().max(50, 'Room must be less than 50 characters').optional(),
+    roomLatitude: z.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90').optional(),
+    roomLongitude: z.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180').optional(),
+    roomGeofenceRadius: z.number().int().min(10, 'Radius must be at least 10 meters').max(5000, 'Radius must be at most 5000 meters').optional(),
     semester: z.number().int().min(1, 'Semester must be at least 1').optional(),
 });
 
@@ -134,7 +145,7 @@ export const attendanceQueryValidationSchema = z.object({
     courseId: z.string().cuid('Invalid course ID').optional(),
     startDate: z.string().datetime('Invalid start date format').optional(),
     endDate: z.string().datetime('Invalid end date format').optional(),
-    status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED']).optional(),
+    status: z.enum(['PRESENT', 'ABSENT', 'LATE', 'EXCUSED', 'PARTIAL']).optional(),
     page: z.number().int().min(1, 'Page must be at least 1').optional(),
     limit: z.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit must be at most 100').optional(),
 });
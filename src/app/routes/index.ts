@@ -16,6 +16,9 @@ import { AssignmentRoutes } from '../modules/assignment/assignment.route';
 import auditRoutes from '../modules/audit/audit.route';
 import sessionRoutes from '../modules/session/session.route';
 import bulkRoutes from '../modules/bulk/bulk.route';
+import { correctionRoutes } from '../modules/correction/correction.route';
+import { deviceRoutes } from '../modules/device/device.route';
+import { calendarRoutes } from '../modules/calendar/calendar.route';
 
 const router = Router();
 
@@ -88,6 +91,18 @@ const routes = [
     path: '/bulk',
     route: bulkRoutes,
   },
+  {
+    path: '/correction',
+    route: correctionRoutes,
+  },
+  {
+    path: '/devices',
+    route: deviceRoutes,
+  },
+  {
+    path: '/calendar',
+    route: calendarRoutes,
+  },
 ];
 
 routes.forEach((route) => router.use(route.path, route.route));
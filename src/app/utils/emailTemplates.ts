@@ -330,6 +330,41 @@ export const sendLeaveRequestNotification = async (
     });
 };
 
+/**
+ * Send consecutive absence alert to a teacher
+ */
+export const sendAbsenceStreakEmail = async (
+    email: string,
+    teacherName: string,
+    studentName: string,
+    studentId: string,
+    streakDescription: string,
+    since: string
+): Promise<void> => {
+    const content = `
+        <div style="text-align: center;">
+            <h2 style="color: #333; margin-bottom: 20px;">Consecutive Absences</h2>
+
+            <p style="color: #666; font-size: 16px;">Dear <strong>${teacherName}</strong>,</p>
+
+            <p style="color: #666; font-size: 16px; line-height: 1.6;"><strong>${studentName}</strong> (${studentId}) has missed <strong>${streakDescription}</strong> since ${since}.</p>
+
+            <div style="background: #fff3cd; border-left: 4px solid #ffc107; padding: 20px; margin: 30px 0;">
+                <p style="color: #856404; font-size: 14px; margin: 0;">The student has already been notified. Please follow up with them; the department head will be alerted if the absences continue.</p>
+            </div>
+        </div>
+    `;
+
+    const textContent = `Consecutive Absences\n\nDear ${teacherName},\n\n${studentName} (${studentId}) has missed ${streakDescription} since ${since}.\n\nThe student has already been notified. Please follow up with them; the department head will be alerted if the absences continue.`;
+
+    await sendEmail({
+        to: email,
+        subject: `AttendFlow - Consecutive absences: ${studentName}`,
+        text: textContent,
+        html: emailWrapper(content),
+    });
+};
+
 // Legacy support for existing sendEmailOtp function
 export const sendEmailOtp = async (message: string, email: string): Promise<void> => {
     // If message is just an OTP code (6 digits), use the new template
@@ -360,5 +395,6 @@ export default {
     sendWelcomeEmail,
     sendAttendanceReminderEmail,
     sendLeaveRequestNotification,
+    sendAbsenceStreakEmail,
     sendEmailOtp,
 };
@@ -0,0 +1,44 @@
+import ExcelJS from 'exceljs';
+
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportCell = string | number | null;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+const escapeCsv = (value: ExportCell): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render a header row and data rows as a downloadable CSV or XLSX file
+ * @returns object - File contents with the matching content type and extension
+ */
+const exportTable = async (
+  sheetName: string,
+  header: string[],
+  rows: ExportCell[][],
+  format: ExportFormat
+): Promise<{ buffer: Buffer; contentType: string; extension: ExportFormat }> => {
+  if (format === 'csv') {
+    // Leading BOM so spreadsheet apps read the file as UTF-8
+    const csv = [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n');
+    return { buffer: Buffer.from(`\uFEFF${csv}`, 'utf-8'), contentType: CONTENT_TYPES.csv, extension: 'csv' };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  // Worksheet names are limited to 31 characters and cannot contain []:*?/\
+  const sheet = workbook.addWorksheet(sheetName.replace(/[[\]:*?/\\]/g, '-').slice(0, 31));
+  sheet.addRow(header).font = { bold: true };
+  sheet.addRows(rows);
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+  return { buffer, contentType: CONTENT_TYPES.xlsx, extension: 'xlsx' };
+};
+
+export default exportTable;
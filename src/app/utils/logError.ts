@@ -0,0 +1,7 @@
+// Report a failure of background work (schedulers, alerts) that has no request to send it back through
+const logError = (context: string, error: unknown) => {
+  // eslint-disable-next-line no-console
+  console.error(`${context}:`, error);
+};
+
+export default logError;
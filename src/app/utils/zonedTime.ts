@@ -0,0 +1,166 @@
+/**
+ * Date helpers that work in an IANA time zone (e.g. "Asia/Dhaka") instead of the server's own.
+ * An attendance day is stored as the instant its midnight falls on in the institution's time zone.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+};
+
+// The server's own time zone, used when none is configured
+export const serverTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock fields of an instant in the time zone
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map((part) => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hours: Number(parts.hour),
+    minutes: Number(parts.minute),
+    seconds: Number(parts.second),
+  };
+};
+
+// Milliseconds the time zone is ahead of UTC at an instant
+const getOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes, parts.seconds);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The instant a wall-clock time in the time zone falls on. Out-of-range fields roll over
+ * (day 32 is the 1st of the next month); a time skipped by a DST change moves forward.
+ */
+export const fromZonedTime = (
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0,
+  milliseconds = 0
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds);
+  const offset = getOffset(new Date(wallClock), timeZone);
+  const result = wallClock - offset;
+  const actualOffset = getOffset(new Date(result), timeZone);
+  if (actualOffset === offset) {
+    return new Date(result);
+  }
+
+  // Near a DST change the offset differs at the guess; a skipped time keeps the later guess
+  const corrected = wallClock - actualOffset;
+  return new Date(getOffset(new Date(corrected), timeZone) === actualOffset ? corrected : result);
+};
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Midnight, in the time zone, of the day an instant falls on. A bare "YYYY-MM-DD" string
+ * is read as that calendar day rather than as UTC midnight.
+ */
+export const startOfZonedDay = (date: Date | string, timeZone: string): Date => {
+  const match = typeof date === 'string' ? DATE_ONLY.exec(date) : null;
+  if (match) {
+    return fromZonedTime(timeZone, Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  const parts = getZonedParts(new Date(date), timeZone);
+  return fromZonedTime(timeZone, parts.year, parts.month, parts.day);
+};
+
+// The last millisecond, in the time zone, of the day an instant falls on
+export const endOfZonedDay = (date: Date | string, timeZone: string): Date =>
+  new Date(addZonedDays(date, 1, timeZone).getTime() - 1);
+
+// Midnight, in the time zone, of the day a number of days after (or before) the day an instant falls on
+export const addZonedDays = (date: Date | string, days: number, timeZone: string): Date => {
+  const parts = getZonedParts(startOfZonedDay(date, timeZone), timeZone);
+  return fromZonedTime(timeZone, parts.year, parts.month, parts.day + days);
+};
+
+// Day of the week in the time zone, Monday 1 to Sunday 7 like ClassSchedule.dayOfWeek
+export const getZonedWeekday = (date: Date, timeZone: string): number => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return weekday === 0 ? 7 : weekday;
+};
+
+// A schedule time such as "09:30" on the day an instant falls on, in the time zone
+export const atZonedTime = (date: Date, time: string, timeZone: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return fromZonedTime(timeZone, year, month, day, hours, minutes);
+};
+
+// "YYYY-MM-DD" of the day an instant falls on in the time zone
+export const toZonedDateKey = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// "HH:mm" of an instant in the time zone
+export const toZonedTimeString = (date: Date, timeZone: string): string => {
+  const { hours, minutes } = getZonedParts(date, timeZone);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Whole calendar days from one day to another in the time zone, negative when the second is earlier
+export const zonedDaysBetween = (from: Date | string, to: Date | string, timeZone: string): number => {
+  const [fromKey, toKey] = [startOfZonedDay(from, timeZone), startOfZonedDay(to, timeZone)]
+    .map((day) => toZonedDateKey(day, timeZone).split('-').map(Number))
+    .map(([year, month, day]) => Date.UTC(year, month - 1, day));
+  return Math.round((toKey - fromKey) / DAY_MS);
+};
+
+// A readable day such as "Mon, Oct 19, 2026" in the time zone
+export const formatZonedDate = (date: Date, timeZone: string): string => date.toLocaleDateString('en-US', {
+  timeZone,
+  weekday: 'short',
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+});
@@ -2,6 +2,7 @@ import 'dotenv/config';
 import app from './app';
 import config from './app/config';
 import prisma from './app/config/prisma';
+import { AttendanceSessionScheduler } from './app/modules/attendance/attendanceSession.scheduler';
 
 const main = async () => {
   
@@ -13,6 +14,8 @@ const main = async () => {
     app.listen(config.port, () => {
       console.log(`Example app listening on port ${config.port}`);
     });
+
+    AttendanceSessionScheduler.start();
   } catch (error) {
     console.log('Failed to connect to database:', error);
     process.exit(1);
@@ -21,11 +24,13 @@ const main = async () => {
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
+  AttendanceSessionScheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
+  AttendanceSessionScheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });